@@ -0,0 +1,82 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { loadServerConfig, type ServerConfig } from "./config.ts";
+import { clientId, HttpError, sendJson } from "./http.ts";
+import { createRateLimiter } from "./rateLimit.ts";
+import { boundaryRoute } from "./routes/boundary.ts";
+import { chatRoute } from "./routes/chat.ts";
+import { imagesRoute } from "./routes/images.ts";
+import { shareRoute } from "./routes/share.ts";
+import type { RouteHandler } from "./routes/types.ts";
+import { weatherRoute } from "./routes/weather.ts";
+
+const routes: Record<string, { bucket: keyof ServerConfig["rateLimits"]; handler: RouteHandler }> = {
+  "/api/chat": { bucket: "chat", handler: chatRoute },
+  "/api/weather": { bucket: "weather", handler: weatherRoute },
+  "/api/images": { bucket: "images", handler: imagesRoute },
+  "/api/boundary": { bucket: "boundary", handler: boundaryRoute },
+  "/api/share": { bucket: "share", handler: shareRoute },
+};
+
+// CORS headers for an allowed cross-origin caller; same-origin requests need none
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse, config: ServerConfig) => {
+  res.setHeader("Vary", "Origin");
+  const origin = req.headers.origin;
+  if (!origin || !config.corsOrigins.includes(origin)) return;
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Expose-Headers", "Retry-After");
+  res.setHeader("Access-Control-Max-Age", "600");
+};
+
+// connect-style middleware: handles /api/* and passes everything else to next()
+// (so it can be mounted in Vite's dev server or wrapped by a plain node:http server)
+export const createApiMiddleware = (config: ServerConfig = loadServerConfig()) => {
+  const limiter = createRateLimiter();
+
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const rawUrl = req.url ?? "/";
+    const url = new URL(rawUrl, "http://localhost");
+    const route = routes[url.pathname.replace(/\/+$/, "")];
+    if (!route) {
+      if (url.pathname.startsWith("/api/")) sendJson(res, 404, { error: "Not found" });
+      else next();
+      return;
+    }
+
+    setCorsHeaders(req, res, config);
+    // preflight: answered before rate limiting, the browser sends it ahead of every JSON POST
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const controller = new AbortController();
+    // "close" on the response fires when the client goes away before we finish
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      if (rawUrl.length > config.maxUrlLength) throw new HttpError(414, "URL too long");
+      const wait = limiter.check(route.bucket, clientId(req, config.trustProxy), config.rateLimits[route.bucket]);
+      if (wait > 0) {
+        throw new HttpError(429, "Too many requests", { "Retry-After": String(wait) });
+      }
+      await route.handler({ req, res, url, config, signal: controller.signal });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (res.headersSent) {
+        res.destroy(e instanceof Error ? e : undefined);
+        return;
+      }
+      if (e instanceof HttpError) {
+        sendJson(res, e.status, { error: e.message }, e.headers);
+      } else {
+        console.error("API error", e);
+        sendJson(res, 502, { error: "Upstream request failed" });
+      }
+    }
+  };
+};
@@ -0,0 +1,58 @@
+// server-side settings; keys are read from the process environment (or .env via Vite's loadEnv)
+// and never reach the browser bundle
+export type ServerConfig = {
+  geminiApiKey?: string;
+  geminiModel: string;
+  openaiApiKey?: string;
+  openaiModel: string;
+  openWeatherMapKey?: string;
+  googleApiKey?: string;
+  googleCx?: string;
+  nominatimUserAgent: string;
+  // directory where shared trip snapshots are written
+  shareDir: string;
+  // bytes accepted in a request body / characters in a request URL
+  maxBodyBytes: number;
+  maxUrlLength: number;
+  // reverse proxies in front of the server whose X-Forwarded-For is trusted; 0 = use the socket
+  trustProxy: number;
+  // browser origins allowed to call the API cross-origin (the app served from another host)
+  corsOrigins: string[];
+  // requests per client per minute, by endpoint
+  rateLimits: Record<"chat" | "weather" | "images" | "boundary" | "share", number>;
+};
+
+const toInt = (v: string | undefined, fallback: number) => {
+  const n = Number.parseInt(v ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export const loadServerConfig = (
+  env: Record<string, string | undefined> = process.env
+): ServerConfig => ({
+  geminiApiKey: env.GEMINI_API_KEY || undefined,
+  geminiModel: env.GEMINI_MODEL || "gemini-2.0-flash",
+  openaiApiKey: env.OPENAI_API_KEY || undefined,
+  openaiModel: env.OPENAI_MODEL || "gpt-4o-mini",
+  openWeatherMapKey: env.OPENWEATHERMAP_KEY || undefined,
+  googleApiKey: env.GOOGLE_API_KEY || undefined,
+  googleCx: env.GOOGLE_CX || undefined,
+  nominatimUserAgent:
+    env.NOMINATIM_USER_AGENT ||
+    "vietnam-journey-bot/1.0 (https://github.com/Horus031/vietnam-journey-bot)",
+  shareDir: env.SHARE_DIR || ".data/shared-trips",
+  maxBodyBytes: toInt(env.API_MAX_BODY_BYTES, 256 * 1024),
+  maxUrlLength: toInt(env.API_MAX_URL_LENGTH, 2048),
+  trustProxy: env.TRUST_PROXY ? toInt(env.TRUST_PROXY, 0) : 0,
+  corsOrigins: (env.API_CORS_ORIGINS ?? "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean),
+  rateLimits: {
+    chat: toInt(env.API_RATE_LIMIT_CHAT, 20),
+    weather: toInt(env.API_RATE_LIMIT_WEATHER, 60),
+    images: toInt(env.API_RATE_LIMIT_IMAGES, 30),
+    boundary: toInt(env.API_RATE_LIMIT_BOUNDARY, 60),
+    share: toInt(env.API_RATE_LIMIT_SHARE, 30),
+  },
+});
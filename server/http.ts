@@ -0,0 +1,89 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+
+export class HttpError extends Error {
+  status: number;
+  headers?: Record<string, string>;
+  constructor(status: number, message: string, headers?: Record<string, string>) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// read and parse a JSON body, refusing anything larger than maxBytes. An oversized body is left
+// unread and the 413 asks to close the connection, so the client gets the error, not a reset.
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () =>
+      new HttpError(413, `Request body exceeds ${maxBytes} bytes`, { Connection: "close" });
+    const declared = Number(req.headers["content-length"] ?? 0);
+    if (declared > maxBytes) {
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off("data", onData);
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8") || "null"));
+      } catch {
+        reject(new HttpError(400, "Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+// client identity for rate limiting: the socket address, or behind `trustProxy` reverse proxies
+// the X-Forwarded-For hop the outermost of them added (hops further left are client-supplied)
+export const clientId = (req: IncomingMessage, trustProxy = 0): string => {
+  const socket = req.socket.remoteAddress || "unknown";
+  if (trustProxy <= 0) return socket;
+  const fwd = req.headers["x-forwarded-for"];
+  const hops = (Array.isArray(fwd) ? fwd.join(",") : (fwd ?? ""))
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustProxy] ?? socket;
+};
+
+// relay an upstream fetch Response (including SSE streams) to the client
+export const pipeUpstream = async (upstream: Response, res: ServerResponse) => {
+  const headers: Record<string, string> = {
+    "Content-Type": upstream.headers.get("content-type") ?? "application/json",
+    "Cache-Control": "no-cache",
+  };
+  res.writeHead(upstream.status, headers);
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    Readable.fromWeb(upstream.body as import("node:stream/web").ReadableStream)
+      .on("error", reject)
+      .pipe(res)
+      .on("finish", resolve)
+      .on("error", reject);
+  });
+};
@@ -0,0 +1,20 @@
+// standalone API server: `npm run server` (serves /api/* only; run `vite` or a static host for the app)
+import { createServer } from "node:http";
+import { createApiMiddleware } from "./app.ts";
+import { sendJson } from "./http.ts";
+
+// pick up keys from .env when present (Vite does this itself for the dev middleware)
+try {
+  process.loadEnvFile();
+} catch {
+  // no .env file: rely on the real environment
+}
+
+const port = Number(process.env.PORT) || 8787;
+const api = createApiMiddleware();
+
+createServer((req, res) => {
+  api(req, res, () => sendJson(res, 404, { error: "Not found" }));
+}).listen(port, () => {
+  console.log(`vietnam-journey-bot API listening on http://localhost:${port}`);
+});
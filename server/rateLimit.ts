@@ -0,0 +1,33 @@
+// fixed one-minute window per (bucket, client); enough to stop a runaway tab or a scripted loop
+export type RateLimiter = {
+  // returns the seconds to wait, or 0 when the request is allowed
+  check(bucket: string, client: string, limitPerMinute: number): number;
+};
+
+const WINDOW_MS = 60_000;
+
+export const createRateLimiter = (now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sweep = (t: number) => {
+    for (const [k, w] of windows) if (t - w.start >= WINDOW_MS) windows.delete(k);
+  };
+
+  return {
+    check(bucket, client, limitPerMinute) {
+      const t = now();
+      if (windows.size > 10_000) sweep(t);
+      const key = `${bucket}:${client}`;
+      const w = windows.get(key);
+      if (!w || t - w.start >= WINDOW_MS) {
+        windows.set(key, { start: t, count: 1 });
+        return 0;
+      }
+      if (w.count >= limitPerMinute) {
+        return Math.ceil((w.start + WINDOW_MS - t) / 1000);
+      }
+      w.count++;
+      return 0;
+    },
+  };
+};
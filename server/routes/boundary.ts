@@ -0,0 +1,45 @@
+import { HttpError, pipeUpstream } from "../http.ts";
+import { createThrottle } from "../throttle.ts";
+import type { RouteHandler } from "./types.ts";
+
+const NOMINATIM = "https://nominatim.openstreetmap.org";
+const OSM_TYPES = new Set(["N", "W", "R"]);
+// https://operations.osmfoundation.org/policies/nominatim/: at most one request per second
+const nominatimTurn = createThrottle(1000);
+
+// GET ?q=..[&limit=..]        → Nominatim search (Vietnam only, with polygons and address)
+// GET ?osmtype=R&osmid=..     → Nominatim details (with polygon)
+// Proxied so the required User-Agent can be set, which browsers don't allow, and so every
+// client shares one request-per-second budget.
+export const boundaryRoute: RouteHandler = async ({ req, res, url, config, signal }) => {
+  if (req.method !== "GET") throw new HttpError(405, "Use GET", { Allow: "GET" });
+  const headers = {
+    Accept: "application/json",
+    "User-Agent": config.nominatimUserAgent,
+  };
+
+  const osmtype = (url.searchParams.get("osmtype") ?? "").toUpperCase();
+  const osmid = url.searchParams.get("osmid") ?? "";
+  if (osmtype || osmid) {
+    if (!OSM_TYPES.has(osmtype) || !/^\d+$/.test(osmid)) {
+      throw new HttpError(400, "`osmtype` must be N/W/R and `osmid` numeric");
+    }
+    await nominatimTurn(signal);
+    const upstream = await fetch(
+      `${NOMINATIM}/details.php?osmtype=${osmtype}&osmid=${osmid}&format=json&polygon_geojson=1`,
+      { headers, signal }
+    );
+    await pipeUpstream(upstream, res);
+    return;
+  }
+
+  const q = (url.searchParams.get("q") ?? "").trim();
+  if (!q) throw new HttpError(400, "`q` or `osmtype`+`osmid` is required");
+  const limit = Math.min(10, Math.max(1, Number(url.searchParams.get("limit")) || 1));
+  await nominatimTurn(signal);
+  const upstream = await fetch(
+    `${NOMINATIM}/search?format=jsonv2&q=${encodeURIComponent(q)}&polygon_geojson=1&addressdetails=1&limit=${limit}&countrycodes=vn`,
+    { headers, signal }
+  );
+  await pipeUpstream(upstream, res);
+};
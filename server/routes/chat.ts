@@ -0,0 +1,55 @@
+import { HttpError, pipeUpstream, readJsonBody } from "../http.ts";
+import type { RouteHandler } from "./types.ts";
+
+const GEMINI_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+const OPENAI_URL = "https://api.openai.com/v1/chat/completions";
+
+// POST { provider: "gemini" | "openai", stream?: boolean, body: <provider request body> }
+// The client builds the provider-shaped body; the server only picks the model and attaches the key.
+export const chatRoute: RouteHandler = async ({ req, res, config, signal }) => {
+  if (req.method !== "POST") throw new HttpError(405, "Use POST", { Allow: "POST" });
+
+  const payload = await readJsonBody(req, config.maxBodyBytes);
+  if (!payload || typeof payload !== "object") throw new HttpError(400, "Missing body");
+  const { provider, stream, body } = payload as Record<string, unknown>;
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new HttpError(400, "`body` must be an object");
+  }
+  const streaming = stream === true;
+
+  let upstream: Response;
+  if (provider === "gemini") {
+    if (!config.geminiApiKey) throw new HttpError(503, "GEMINI_API_KEY is not configured");
+    if (!Array.isArray((body as Record<string, unknown>)["contents"])) {
+      throw new HttpError(400, "Gemini body needs `contents`");
+    }
+    const action = streaming ? "streamGenerateContent?alt=sse&" : "generateContent?";
+    upstream = await fetch(
+      `${GEMINI_BASE}/${config.geminiModel}:${action}key=${config.geminiApiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      }
+    );
+  } else if (provider === "openai") {
+    if (!config.openaiApiKey) throw new HttpError(503, "OPENAI_API_KEY is not configured");
+    if (!Array.isArray((body as Record<string, unknown>)["messages"])) {
+      throw new HttpError(400, "OpenAI body needs `messages`");
+    }
+    upstream = await fetch(OPENAI_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.openaiApiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...body, model: config.openaiModel, stream: streaming }),
+      signal,
+    });
+  } else {
+    throw new HttpError(400, "`provider` must be \"gemini\" or \"openai\"");
+  }
+
+  await pipeUpstream(upstream, res);
+};
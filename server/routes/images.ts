@@ -0,0 +1,19 @@
+import { HttpError, pipeUpstream } from "../http.ts";
+import type { RouteHandler } from "./types.ts";
+
+// GET ?q=..&num=.. → Google Custom Search image results
+export const imagesRoute: RouteHandler = async ({ req, res, url, config, signal }) => {
+  if (req.method !== "GET") throw new HttpError(405, "Use GET", { Allow: "GET" });
+  if (!config.googleApiKey || !config.googleCx) {
+    throw new HttpError(503, "GOOGLE_API_KEY / GOOGLE_CX are not configured");
+  }
+  const q = (url.searchParams.get("q") ?? "").trim();
+  if (!q) throw new HttpError(400, "`q` is required");
+  // Custom Search caps num at 10
+  const num = Math.min(10, Math.max(1, Number(url.searchParams.get("num")) || 6));
+  const upstream = await fetch(
+    `https://www.googleapis.com/customsearch/v1?key=${config.googleApiKey}&cx=${config.googleCx}&q=${encodeURIComponent(q)}&searchType=image&num=${num}`,
+    { signal }
+  );
+  await pipeUpstream(upstream, res);
+};
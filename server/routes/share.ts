@@ -0,0 +1,82 @@
+import { HttpError, readJsonBody, sendJson } from "../http.ts";
+import { createFileShareStore } from "../shareStore.ts";
+import type { RouteHandler } from "./types.ts";
+
+const MAX_POINTS = 300;
+const MAX_TITLE = 200;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isWebUrl = (s: string) => {
+  try {
+    const { protocol } = new URL(s);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const optionalString = (v: unknown) => (typeof v === "string" ? v : undefined);
+
+// the stop shape the app shares (MapPoint), checked the way the client's parsePoints checks it:
+// a name and a positive integer day, coordinates a number or null (NaN in JSON). Only known
+// fields are stored and a source that isn't an http(s) link is dropped.
+const toSharedStop = (v: unknown, i: number) => {
+  if (!isRecord(v)) throw new HttpError(400, `Stop ${i + 1} is not an object`);
+  const name = typeof v.name === "string" ? v.name.trim() : "";
+  if (!name) throw new HttpError(400, `Stop ${i + 1} has no name`);
+  if (!Number.isInteger(v.day) || (v.day as number) <= 0) {
+    throw new HttpError(400, `Stop ${i + 1} has no valid day`);
+  }
+  const coord = (c: unknown) => (typeof c === "number" && Number.isFinite(c) ? c : null);
+  const budget = (b: unknown) => (Array.isArray(b) || isRecord(b) ? b : undefined);
+  const source = optionalString(v.source);
+  return {
+    day: v.day as number,
+    name,
+    lat: coord(v.lat),
+    lng: coord(v.lng),
+    desc: optionalString(v.desc),
+    source: source && isWebUrl(source) ? source : undefined,
+    time: optionalString(v.time),
+    budget: budget(v.budget),
+    dayBudget: budget(v.dayBudget),
+  };
+};
+
+// POST { title, itinerary, kind? } → { id }   (read-only snapshot for /trip/:id)
+// GET  ?id=..                      → { title, itinerary, kind?, createdAt }
+export const shareRoute: RouteHandler = async ({ req, res, url, config }) => {
+  const store = createFileShareStore(config.shareDir);
+
+  if (req.method === "GET") {
+    const id = url.searchParams.get("id") ?? "";
+    const doc = await store.get(id);
+    if (!doc) throw new HttpError(404, "Shared trip not found");
+    sendJson(res, 200, doc, { "Cache-Control": "public, max-age=300" });
+    return;
+  }
+  if (req.method !== "POST") {
+    throw new HttpError(405, "Use GET or POST", { Allow: "GET, POST" });
+  }
+
+  const payload = await readJsonBody(req, config.maxBodyBytes);
+  if (!payload || typeof payload !== "object") throw new HttpError(400, "Missing body");
+  const { title, itinerary, kind, travelers } = payload as Record<string, unknown>;
+  if (!Array.isArray(itinerary) || itinerary.length === 0) {
+    throw new HttpError(400, "`itinerary` must be a non-empty array");
+  }
+  if (itinerary.length > MAX_POINTS) {
+    throw new HttpError(413, `At most ${MAX_POINTS} stops can be shared`);
+  }
+  const doc = {
+    title: typeof title === "string" ? title.slice(0, MAX_TITLE) : "",
+    itinerary: itinerary.map(toSharedStop),
+    ...(kind === "place" || kind === "itinerary" ? { kind } : {}),
+    ...(typeof travelers === "number" && travelers >= 1 ? { travelers } : {}),
+    createdAt: Date.now(),
+  };
+  const id = await store.put(doc);
+  sendJson(res, 201, { id });
+};
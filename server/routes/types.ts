@@ -0,0 +1,13 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ServerConfig } from "../config.ts";
+
+export type RouteContext = {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  config: ServerConfig;
+  // aborted when the client disconnects, so upstream calls stop too
+  signal: AbortSignal;
+};
+
+export type RouteHandler = (ctx: RouteContext) => Promise<void>;
@@ -0,0 +1,20 @@
+import { HttpError, pipeUpstream } from "../http.ts";
+import type { RouteHandler } from "./types.ts";
+
+// GET ?lat=..&lng=.. → OpenWeatherMap current weather (metric, Vietnamese descriptions)
+export const weatherRoute: RouteHandler = async ({ req, res, url, config, signal }) => {
+  if (req.method !== "GET") throw new HttpError(405, "Use GET", { Allow: "GET" });
+  if (!config.openWeatherMapKey) {
+    throw new HttpError(503, "OPENWEATHERMAP_KEY is not configured");
+  }
+  const lat = Number(url.searchParams.get("lat"));
+  const lng = Number(url.searchParams.get("lng"));
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new HttpError(400, "`lat` and `lng` must be valid coordinates");
+  }
+  const upstream = await fetch(
+    `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lng}&units=metric&appid=${config.openWeatherMapKey}&lang=vi`,
+    { signal }
+  );
+  await pipeUpstream(upstream, res);
+};
@@ -0,0 +1,30 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// shared trips are small JSON documents kept as one file each under SHARE_DIR
+export type ShareStore = {
+  put(doc: unknown): Promise<string>;
+  get(id: string): Promise<unknown | null>;
+};
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,32}$/;
+
+export const isShareId = (id: string) => ID_PATTERN.test(id);
+
+export const createFileShareStore = (dir: string): ShareStore => ({
+  async put(doc) {
+    await mkdir(dir, { recursive: true });
+    const id = randomBytes(8).toString("base64url");
+    await writeFile(path.join(dir, `${id}.json`), JSON.stringify(doc), "utf8");
+    return id;
+  },
+  async get(id) {
+    if (!isShareId(id)) return null;
+    try {
+      return JSON.parse(await readFile(path.join(dir, `${id}.json`), "utf8"));
+    } catch {
+      return null;
+    }
+  },
+});
@@ -0,0 +1,24 @@
+// spaces calls to one upstream at least intervalMs apart across all clients (Nominatim allows
+// one request per second per application). Waiters that abort stop waiting; their slot
+// still passes unused.
+export const createThrottle = (intervalMs: number) => {
+  let nextSlot = 0;
+
+  return (signal?: AbortSignal): Promise<void> => {
+    const now = Date.now();
+    const at = Math.max(now, nextSlot);
+    nextSlot = at + intervalMs;
+    if (at === now) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const t = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, at - now);
+      const onAbort = () => {
+        clearTimeout(t);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  };
+};
@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { Minus, Plus, RefreshCw, Users, Wallet, X } from "lucide-react";
+import { useTrip } from "../../context/trip-context";
+import { useCurrency } from "../../hooks/useCurrency";
+import {
+  BUDGET_CATEGORIES,
+  formatMoney,
+  summarizeBudget,
+} from "../../itinerary";
+import { DISPLAY_CURRENCIES } from "../../services/currency";
+
+// trip budget strip under the day tabs; opens totals, traveler count and a per-day chart
+const BudgetSummary = () => {
+  const { itinerary, travelers, setTravelers, readOnly } = useTrip();
+  const [open, setOpen] = useState(false);
+  const {
+    display,
+    setDisplay,
+    rates,
+    convert,
+    formatConverted,
+    canRefreshRates,
+    refreshRates,
+    refreshing,
+    refreshError,
+  } = useCurrency();
+  const summary = useMemo(
+    () => summarizeBudget(itinerary, travelers, convert),
+    [itinerary, travelers, convert]
+  );
+  const { currency, trip, days } = summary;
+  const money = (n: number) => formatMoney(n, currency);
+  const converted = (n: number) => formatConverted(n, currency);
+  const dayList = [...days].sort(([a], [b]) => a - b);
+  const maxDay = Math.max(1, ...dayList.map(([, t]) => t.total));
+
+  if (trip.total <= 0 && trip.skipped === 0) return null;
+
+  return (
+    <div className="relative px-2 pb-2">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between gap-2 px-2 py-1 rounded border border-[#e5cbaf] bg-white/50 hover:bg-white/80 text-xs cursor-pointer"
+      >
+        <span className="flex items-center gap-1 text-gray-600">
+          <Wallet size={12} /> Tổng ngân sách
+        </span>
+        <span className="text-right">
+          <span className="font-semibold text-[#110a03]">{money(trip.total)}</span>
+          {converted(trip.total) && (
+            <span className="block text-[10px] text-gray-500">
+              {converted(trip.total)} (quy đổi)
+            </span>
+          )}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute left-full top-0 ml-3 w-80 bg-[#eee3d7] border border-[#e5cbaf] shadow-xl rounded-lg p-3 text-xs z-10">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-semibold">Ngân sách chuyến đi</div>
+            <button
+              type="button"
+              className="text-gray-500 hover:text-gray-800 cursor-pointer"
+              onClick={() => setOpen(false)}
+            >
+              <X size={14} />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 mb-2">
+            <label className="text-gray-600">Hiển thị quy đổi sang</label>
+            <select
+              value={display}
+              onChange={(e) => setDisplay(e.target.value)}
+              className="border border-[#e5cbaf] rounded px-1 py-0.5 bg-white"
+            >
+              {DISPLAY_CURRENCIES.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+            {canRefreshRates && (
+              <button
+                type="button"
+                title="Cập nhật tỷ giá"
+                disabled={refreshing}
+                onClick={refreshRates}
+                className="p-1 rounded text-gray-500 hover:bg-white cursor-pointer disabled:opacity-50"
+              >
+                <RefreshCw size={12} className={refreshing ? "animate-spin" : ""} />
+              </button>
+            )}
+          </div>
+          {display !== currency && (
+            <div className="mb-2 text-[11px] text-gray-500">
+              Số tiền "≈" được quy đổi từ {currency} theo tỷ giá{" "}
+              {rates.source === "bundled" ? "tham khảo tích hợp sẵn" : "cập nhật"}{" "}
+              ngày {rates.asOf}.
+              {refreshError && <div className="text-amber-700">{refreshError}</div>}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <div>
+              <div className="text-lg font-bold text-[#004d00]">
+                {money(trip.total)}
+              </div>
+              {converted(trip.total) && (
+                <div className="text-gray-600">{converted(trip.total)}</div>
+              )}
+              {travelers > 1 && (
+                <div className="text-gray-600">
+                  {money(trip.total / travelers)} / người
+                  {converted(trip.total / travelers) &&
+                    ` (${converted(trip.total / travelers)})`}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <Users size={12} className="text-gray-500" />
+              {readOnly ? (
+                <span>{travelers} người</span>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    title="Bớt một người"
+                    className="p-0.5 rounded border border-[#e5cbaf] cursor-pointer disabled:opacity-40"
+                    disabled={travelers <= 1}
+                    onClick={() => setTravelers(travelers - 1)}
+                  >
+                    <Minus size={10} />
+                  </button>
+                  <span className="w-10 text-center">{travelers} người</span>
+                  <button
+                    type="button"
+                    title="Thêm một người"
+                    className="p-0.5 rounded border border-[#e5cbaf] cursor-pointer"
+                    onClick={() => setTravelers(travelers + 1)}
+                  >
+                    <Plus size={10} />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <ul className="space-y-1 mb-3">
+            {BUDGET_CATEGORIES.filter((c) => trip.byCategory[c.id] > 0).map(
+              (c) => (
+                <li key={c.id} className="flex items-center gap-2">
+                  <span
+                    className="w-2.5 h-2.5 rounded-sm shrink-0"
+                    style={{ background: c.color }}
+                  />
+                  <span className="flex-1">{c.label}</span>
+                  <span className="text-gray-500">
+                    {Math.round((trip.byCategory[c.id] / trip.total) * 100)}%
+                  </span>
+                  <span className="w-24 text-right font-medium">
+                    {money(trip.byCategory[c.id])}
+                    {converted(trip.byCategory[c.id]) && (
+                      <span className="block text-[10px] font-normal text-gray-500">
+                        {converted(trip.byCategory[c.id])}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              )
+            )}
+          </ul>
+
+          <div className="text-gray-600 mb-1">Theo ngày</div>
+          <div className="space-y-1.5">
+            {dayList.map(([day, t]) => (
+              <div key={day} className="flex items-center gap-2">
+                <span className="w-10 shrink-0">Ngày {day}</span>
+                <div className="flex-1 h-3 bg-white/60 rounded overflow-hidden">
+                  <div
+                    className="flex h-full"
+                    style={{ width: `${(t.total / maxDay) * 100}%` }}
+                  >
+                    {BUDGET_CATEGORIES.map((c) =>
+                      t.byCategory[c.id] > 0 ? (
+                        <div
+                          key={c.id}
+                          title={`${c.label}: ${money(t.byCategory[c.id])}`}
+                          style={{
+                            background: c.color,
+                            width: `${(t.byCategory[c.id] / t.total) * 100}%`,
+                          }}
+                        />
+                      ) : null
+                    )}
+                  </div>
+                </div>
+                <span className="w-24 shrink-0 text-right">
+                  {money(t.total)}
+                  {converted(t.total) && (
+                    <span className="block text-[10px] text-gray-500">
+                      {converted(t.total)}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {trip.skipped > 0 && (
+            <div className="mt-2 text-[11px] text-amber-700">
+              {trip.skipped} khoản tính bằng tiền tệ không có tỷ giá sang {currency} nên không được cộng vào tổng.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetSummary;
@@ -0,0 +1,294 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, ArrowRight, Plus, Receipt, Trash2, X } from "lucide-react";
+import { useTrip } from "../../context/trip-context";
+import { useCurrency } from "../../hooks/useCurrency";
+import {
+  newExpenseId,
+  settleUp,
+  spentByDay,
+  splitMembers,
+  type Expense,
+} from "../../expenses";
+import {
+  BUDGET_CATEGORIES,
+  categoryLabel,
+  formatMoney,
+  parseAmount,
+  type BudgetCategory,
+} from "../../itinerary";
+import { DISPLAY_CURRENCIES } from "../../services/currency";
+
+interface ExpensesPanelProps {
+  day: number;
+  // the day's estimated budget, in `currency`
+  estimate: number;
+  currency: string;
+}
+
+// actual spending for one day against its estimate, plus who owes whom for the whole trip
+const ExpensesPanel: React.FC<ExpensesPanelProps> = ({ day, estimate, currency }) => {
+  const { expenses, setExpenses, members, setMembers, readOnly } = useTrip();
+  const { convert } = useCurrency();
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [expenseCurrency, setExpenseCurrency] = useState(currency);
+  const [category, setCategory] = useState<BudgetCategory>("food");
+  const [note, setNote] = useState("");
+  const [payer, setPayer] = useState("");
+  const [newMember, setNewMember] = useState("");
+
+  const people = useMemo(() => splitMembers(members, expenses), [members, expenses]);
+  const spent = useMemo(
+    () => spentByDay(expenses, currency, convert).get(day) ?? 0,
+    [expenses, currency, convert, day]
+  );
+  const settlements = useMemo(
+    () => settleUp(expenses, members, currency, convert),
+    [expenses, members, currency, convert]
+  );
+  const dayExpenses = expenses.filter((e) => e.day === day);
+  const over = estimate > 0 && spent > estimate;
+  const money = (n: number) => formatMoney(n, currency);
+  const parsedAmount = parseAmount(amount);
+  const payerName = payer.trim() || people[0] || "";
+  const canAdd = parsedAmount > 0 && !!payerName;
+
+  const addExpense = () => {
+    if (!canAdd) return;
+    const expense: Expense = {
+      id: newExpenseId(),
+      day,
+      amount: parsedAmount,
+      currency: expenseCurrency,
+      category,
+      note: note.trim() || undefined,
+      payer: payerName,
+      createdAt: Date.now(),
+    };
+    setExpenses((prev) => [...prev, expense]);
+    if (!members.includes(payerName)) setMembers((prev) => [...prev, payerName]);
+    setAmount("");
+    setNote("");
+  };
+
+  const addMember = () => {
+    const name = newMember.trim();
+    if (name && !people.includes(name)) setMembers((prev) => [...prev, name]);
+    setNewMember("");
+  };
+
+  if (readOnly && expenses.length === 0) return null;
+
+  return (
+    <div className="relative px-2 pb-2">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded border bg-white/50 hover:bg-white/80 text-xs cursor-pointer ${
+          over ? "border-red-300" : "border-[#e5cbaf]"
+        }`}
+      >
+        <span className="flex items-center gap-1 text-gray-600">
+          <Receipt size={12} /> Đã chi ngày {day}
+        </span>
+        <span className={`font-semibold ${over ? "text-red-600" : "text-[#110a03]"}`}>
+          {money(spent)}
+          {estimate > 0 && (
+            <span className="font-normal text-gray-500"> / {money(estimate)}</span>
+          )}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute left-full top-0 ml-3 w-80 bg-[#eee3d7] border border-[#e5cbaf] shadow-xl rounded-lg p-3 text-xs z-10">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-semibold">Chi tiêu ngày {day}</div>
+            <button
+              type="button"
+              className="text-gray-500 hover:text-gray-800 cursor-pointer"
+              onClick={() => setOpen(false)}
+            >
+              <X size={14} />
+            </button>
+          </div>
+
+          {estimate > 0 && (
+            <div className="mb-3">
+              <div className="h-2 bg-white/60 rounded overflow-hidden">
+                <div
+                  className={`h-full ${over ? "bg-red-500" : "bg-[#004d00]"}`}
+                  style={{ width: `${Math.min(100, (spent / estimate) * 100)}%` }}
+                />
+              </div>
+              <div className="mt-1 flex justify-between text-gray-600">
+                <span>Dự kiến {money(estimate)}</span>
+                {over ? (
+                  <span className="flex items-center gap-1 text-red-600">
+                    <AlertTriangle size={11} /> Vượt {money(spent - estimate)}
+                  </span>
+                ) : (
+                  <span>Còn {money(estimate - spent)}</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          <ul className="space-y-1 mb-3 max-h-40 overflow-auto">
+            {dayExpenses.length === 0 && (
+              <li className="text-gray-500">Chưa ghi khoản chi nào.</li>
+            )}
+            {dayExpenses.map((e) => (
+              <li key={e.id} className="flex items-start gap-2">
+                <span
+                  className="mt-1 w-2.5 h-2.5 rounded-sm shrink-0"
+                  style={{
+                    background: BUDGET_CATEGORIES.find((c) => c.id === e.category)?.color,
+                  }}
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate">{e.note || categoryLabel(e.category)}</span>
+                  <span className="text-[10px] text-gray-500">{e.payer} trả</span>
+                </span>
+                <span className="font-medium">{formatMoney(e.amount, e.currency)}</span>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    title="Xoá khoản chi"
+                    className="text-gray-400 hover:text-red-600 cursor-pointer"
+                    onClick={() =>
+                      setExpenses((prev) => prev.filter((x) => x.id !== e.id))
+                    }
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {!readOnly && (
+            <form
+              className="grid grid-cols-3 gap-1 mb-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addExpense();
+              }}
+            >
+              <input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                inputMode="decimal"
+                placeholder="Số tiền"
+                className="col-span-2 border border-[#e5cbaf] rounded px-1 py-0.5 bg-white"
+              />
+              <select
+                value={expenseCurrency}
+                onChange={(e) => setExpenseCurrency(e.target.value)}
+                className="border border-[#e5cbaf] rounded px-1 py-0.5 bg-white"
+              >
+                {DISPLAY_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as BudgetCategory)}
+                className="border border-[#e5cbaf] rounded px-1 py-0.5 bg-white"
+              >
+                {BUDGET_CATEGORIES.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Ghi chú"
+                className="col-span-2 border border-[#e5cbaf] rounded px-1 py-0.5 bg-white"
+              />
+              <input
+                value={payer}
+                onChange={(e) => setPayer(e.target.value)}
+                list="expense-payers"
+                placeholder={people[0] ? `Người trả (${people[0]})` : "Người trả"}
+                className="col-span-2 border border-[#e5cbaf] rounded px-1 py-0.5 bg-white"
+              />
+              <datalist id="expense-payers">
+                {people.map((p) => (
+                  <option key={p} value={p} />
+                ))}
+              </datalist>
+              <button
+                type="submit"
+                disabled={!canAdd}
+                className="flex items-center justify-center gap-0.5 rounded bg-[#004d00] text-white cursor-pointer disabled:opacity-50"
+              >
+                <Plus size={12} /> Thêm
+              </button>
+            </form>
+          )}
+
+          <div className="text-gray-600 mb-1">Chia đều cho</div>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {people.map((p) => (
+              <span
+                key={p}
+                className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-white/70 border border-[#e5cbaf]"
+              >
+                {p}
+                {!readOnly && !expenses.some((e) => e.payer === p) && (
+                  <button
+                    type="button"
+                    title="Bỏ khỏi nhóm"
+                    className="text-gray-400 hover:text-red-600 cursor-pointer"
+                    onClick={() => setMembers((prev) => prev.filter((m) => m !== p))}
+                  >
+                    <X size={10} />
+                  </button>
+                )}
+              </span>
+            ))}
+            {!readOnly && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addMember();
+                }}
+              >
+                <input
+                  value={newMember}
+                  onChange={(e) => setNewMember(e.target.value)}
+                  placeholder="+ Thêm người"
+                  className="w-24 border border-dashed border-[#e5cbaf] rounded-full px-1.5 py-0.5 bg-transparent"
+                />
+              </form>
+            )}
+          </div>
+
+          <div className="text-gray-600 mb-1">Ai nợ ai (cả chuyến)</div>
+          {settlements.length === 0 ? (
+            <div className="text-gray-500">
+              {people.length < 2 ? "Thêm ít nhất hai người để chia tiền." : "Mọi người đã hoà."}
+            </div>
+          ) : (
+            <ul className="space-y-1">
+              {settlements.map((s) => (
+                <li key={`${s.from}-${s.to}`} className="flex items-center gap-1">
+                  <span className="font-medium">{s.from}</span>
+                  <ArrowRight size={11} className="text-gray-500" />
+                  <span className="font-medium flex-1">{s.to}</span>
+                  <span>{money(s.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpensesPanel;
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { CalendarDays, Download, Printer } from "lucide-react";
+import { useTrip } from "../../context/trip-context";
+import {
+  toGeoJson,
+  toGpx,
+  toIcs,
+  toKml,
+  type ExportInput,
+} from "../../export";
+import { encodeSharedTrip } from "../../services/share";
+import { downloadFile } from "../../utils/download";
+import { slugify } from "../../utils/text";
+
+interface ExportMenuProps {
+  routes: ExportInput["routes"];
+  boundaryFor: ExportInput["boundaryFor"];
+}
+
+const FORMATS = [
+  {
+    label: "GPX (điểm dừng)",
+    ext: "gpx",
+    mime: "application/gpx+xml",
+    build: (input: ExportInput) => toGpx(input),
+  },
+  {
+    label: "GPX (kèm lộ trình)",
+    ext: "gpx",
+    mime: "application/gpx+xml",
+    build: (input: ExportInput) => toGpx(input, { withRoutes: true }),
+  },
+  {
+    label: "KML (Google My Maps)",
+    ext: "kml",
+    mime: "application/vnd.google-earth.kml+xml",
+    build: toKml,
+  },
+  {
+    label: "GeoJSON",
+    ext: "geojson",
+    mime: "application/geo+json",
+    build: toGeoJson,
+  },
+];
+
+const todayIso = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate()
+  ).padStart(2, "0")}`;
+};
+
+// "Xuất": download the itinerary for navigation apps and map tools
+const ExportMenu: React.FC<ExportMenuProps> = ({ routes, boundaryFor }) => {
+  const { title, itinerary, travelers } = useTrip();
+  const [open, setOpen] = useState(false);
+  // day 1 of the trip, for the calendar export
+  const [startDate, setStartDate] = useState(todayIso);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (f: (typeof FORMATS)[number]) => {
+    setOpen(false);
+    const content = f.build({ title, points: itinerary, routes, boundaryFor });
+    downloadFile(`${slugify(title) || "hanh-trinh"}.${f.ext}`, content, f.mime);
+  };
+
+  // the print page gets the trip in its URL, so unsaved and shared trips print too. The tab is
+  // opened before encoding, while the click still counts as a user gesture; with popups blocked
+  // the print page opens in this tab instead
+  const openPrint = async () => {
+    setOpen(false);
+    setError(null);
+    const tab = window.open("", "_blank");
+    let encoded: string;
+    try {
+      encoded = await encodeSharedTrip({ title, itinerary, travelers });
+    } catch (e) {
+      console.warn("Encoding trip for print failed", e);
+      tab?.close();
+      setError("Không thể mở bản in.");
+      return;
+    }
+    if (tab) tab.location.href = `/print#${encoded}`;
+    else window.location.href = `/print#${encoded}`;
+  };
+
+  const exportCalendar = () => {
+    if (!startDate) return;
+    setOpen(false);
+    const content = toIcs({ title, points: itinerary }, { startDate });
+    downloadFile(
+      `${slugify(title) || "hanh-trinh"}.ics`,
+      content,
+      "text/calendar;charset=utf-8"
+    );
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          setError(null);
+          setOpen((v) => !v);
+        }}
+        disabled={itinerary.length === 0}
+        className="flex items-center gap-1 text-xs px-2 py-1 rounded-full border border-[#e5cbaf] text-[#110a03] hover:bg-white/60 cursor-pointer disabled:opacity-50"
+      >
+        <Download size={12} /> Xuất
+      </button>
+      {error && !open && (
+        <div className="absolute right-0 top-8 z-10 w-56 bg-white border border-[#e5cbaf] rounded shadow-lg p-2 text-xs flex items-center justify-between gap-2">
+          <span className="text-red-600">{error}</span>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-gray-700 cursor-pointer"
+            onClick={() => setError(null)}
+          >
+            Đóng
+          </button>
+        </div>
+      )}
+      {open && (
+        <div className="absolute right-0 top-8 z-10 w-56 bg-white border border-[#e5cbaf] rounded shadow-lg py-1 text-xs">
+          {FORMATS.map((f) => (
+            <button
+              key={f.label}
+              type="button"
+              className="block w-full text-left px-3 py-1.5 hover:bg-[#eee3d7] cursor-pointer"
+              onClick={() => run(f)}
+            >
+              {f.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            className="flex items-center gap-1 w-full text-left px-3 py-1.5 hover:bg-[#eee3d7] cursor-pointer"
+            onClick={openPrint}
+          >
+            <Printer size={12} /> Bản in A4
+          </button>
+          <div className="border-t border-[#e5cbaf] mt-1 pt-2 px-3 pb-1">
+            <label className="block text-gray-600 mb-1">Ngày khởi hành</label>
+            <div className="flex gap-1">
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="flex-1 min-w-0 border border-[#e5cbaf] rounded px-1 py-0.5"
+              />
+              <button
+                type="button"
+                title="Xuất lịch (.ics) cho Google Calendar, Outlook"
+                disabled={!startDate}
+                onClick={exportCalendar}
+                className="flex items-center gap-1 px-2 rounded bg-[#004d00] text-white hover:bg-[#004d00]/80 cursor-pointer disabled:opacity-50"
+              >
+                <CalendarDays size={12} /> .ics
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
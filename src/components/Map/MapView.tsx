@@ -1,35 +1,57 @@
 // ...existing code...
 import React, { useRef, useEffect, useState } from "react";
 import mapboxgl from "mapbox-gl";
+import { AlertTriangle, Plus } from "lucide-react";
+import {
+  formatMoney,
+  hasCoords,
+  moveStop,
+  nextDay,
+  normalizeCoords,
+  removeStop,
+  summarizeBudget,
+  updateStop,
+  type MapPoint,
+  type StopRef,
+} from "../../itinerary";
+import { apiUrl } from "../../services/api";
+import { boundaryKey, getBoundary, prefetchBoundaries } from "../../services/boundary";
+import {
+  fetchRoute,
+  routeKey,
+  formatDistance,
+  formatDuration,
+  type RouteLeg,
+  type RouteResult,
+} from "../../services/routing";
+import { useTrip } from "../../context/trip-context";
+import { useCurrency } from "../../hooks/useCurrency";
+import { usePlaceVerification } from "../../hooks/usePlaceVerification";
+import { spentByDay } from "../../expenses";
+import { fetchWeather, weatherIconUrl, type Weather } from "../../services/weather";
+import { forEachLimit } from "../../utils/concurrency";
+import { circlePolygon } from "../../utils/geo";
+import { isWebUrl } from "../../utils/text";
+import BudgetSummary from "./BudgetSummary";
+import ExpensesPanel from "./ExpensesPanel";
+import ExportMenu from "./ExportMenu";
+import OverviewLegend from "./OverviewLegend";
+import PlaceCandidates from "./PlaceCandidates";
+import ShareButton from "./ShareButton";
+import StopListItem from "./StopListItem";
 
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN as string;
 
-export type MapPoint = {
-  day: number;
-  name: string;
-  lat: number;
-  lng: number;
-  desc?: string;
-  source?: string;
-  geojson?: GeoJSON.Geometry | GeoJSON.Feature | GeoJSON.FeatureCollection;
-  // optional budget information supplied by the AI. Can be a number (total), a string, or an object
-  // Example forms supported:
-  // { budget: 1200000 }
-  // { budget: { total: 1200000, currency: 'VND', perPerson: 400000 } }
-  // { budget: "1,200,000 VND" }
-  budget?:
-    | number
-    | string
-    | { total?: number; currency?: string; perPerson?: number; note?: string };
-};
+export type { MapPoint };
 
 interface MapViewProps {
-  points?: MapPoint[]; // list of destinations (single place or itinerary)
   initialCoordinates?: [number, number];
   initialZoom?: number;
   className?: string;
 }
 
+const ROUTE_SOURCE = "day-route";
+
 const DEFAULT_PALETTE = [
   "#ff4d4f",
   "#ff7a45",
@@ -41,12 +63,213 @@ const DEFAULT_PALETTE = [
   "#ec4899",
 ];
 
+// every stop of the shown day lives in one source, every outline in another; features carry
+// day/index and a palette slot (`color`: the stop's index, or the day's in the overview) and
+// are styled by data-driven expressions, so updates are a setData each
+const STOP_SOURCE = "stops";
+const STOP_LAYER = `${STOP_SOURCE}-circle`;
+const OUTLINE_SOURCE = "stop-outlines";
+// the whole trip at once, clustered when zoomed out
+const OVERVIEW_SOURCE = "overview-stops";
+const OVERVIEW_LAYER = `${OVERVIEW_SOURCE}-circle`;
+const CLUSTER_LAYER = `${OVERVIEW_SOURCE}-clusters`;
+const paletteColor: mapboxgl.ExpressionSpecification = [
+  "at",
+  ["%", ["get", "color"], DEFAULT_PALETTE.length],
+  ["literal", DEFAULT_PALETTE],
+];
+const dayColor = (slot: number) => DEFAULT_PALETTE[slot % DEFAULT_PALETTE.length];
+const LABEL_FONT = ["DIN Pro Medium", "Arial Unicode MS Regular"];
+
+// outline lookups in flight at once; the Nominatim client spaces its own requests, this only
+// keeps a long day from queueing everything ahead of the next update
+const BOUNDARY_CONCURRENCY = 3;
+
+const DRAWABLE = new Set(["Polygon", "MultiPolygon", "LineString", "MultiLineString"]);
+
+// outline the model sent with the stop itself (a geometry, feature or feature collection)
+const ownGeometry = (p: MapPoint): GeoJSON.Geometry | null => {
+  const gj = p.geojson as unknown;
+  if (typeof gj !== "object" || gj === null) return null;
+  if ("features" in gj && Array.isArray((gj as { features?: unknown }).features)) {
+    const fc = gj as GeoJSON.FeatureCollection;
+    const polyFeat = fc.features.find((f) => !!f.geometry && DRAWABLE.has(f.geometry.type));
+    return polyFeat?.geometry ?? fc.features[0]?.geometry ?? null;
+  }
+  if ("geometry" in gj) return (gj as GeoJSON.Feature).geometry ?? null;
+  return "type" in gj ? (gj as GeoJSON.Geometry) : null;
+};
+
+const stopPopup = ({
+  name,
+  desc,
+  source,
+  day,
+  overview,
+}: {
+  name?: string;
+  desc?: string;
+  source?: string;
+  day?: number;
+  overview?: boolean;
+}) => {
+  const popupEl = document.createElement("div");
+  popupEl.style.fontSize = "13px";
+  if (overview && day !== undefined) {
+    const dayEl = document.createElement("div");
+    dayEl.style.color = "#6b7280";
+    dayEl.style.fontSize = "11px";
+    dayEl.textContent = `Ngày ${day}`;
+    popupEl.appendChild(dayEl);
+  }
+  const titleEl = document.createElement("div");
+  titleEl.style.fontWeight = "600";
+  titleEl.style.marginBottom = "4px";
+  titleEl.textContent = name ?? "";
+  popupEl.appendChild(titleEl);
+  if (desc) {
+    const descEl = document.createElement("div");
+    descEl.style.marginBottom = "6px";
+    descEl.textContent = desc;
+    popupEl.appendChild(descEl);
+  }
+  if (source && isWebUrl(source)) {
+    const linkEl = document.createElement("a");
+    linkEl.href = source;
+    linkEl.target = "_blank";
+    linkEl.rel = "noreferrer";
+    linkEl.style.color = "#1d4ed8";
+    linkEl.style.textDecoration = "underline";
+    linkEl.textContent = "Nguồn đọc thêm";
+    popupEl.appendChild(linkEl);
+  }
+  return popupEl;
+};
+
+const emptyCollection = (): GeoJSON.FeatureCollection => ({
+  type: "FeatureCollection",
+  features: [],
+});
+
+const setSourceData = (mp: mapboxgl.Map, id: string, features: GeoJSON.Feature[]) =>
+  (mp.getSource(id) as mapboxgl.GeoJSONSource | undefined)?.setData({
+    type: "FeatureCollection",
+    features,
+  });
+
+// a colored dot numbered with the stop's place in its day
+const addStopLayers = (mp: mapboxgl.Map, source: string) => {
+  const single: mapboxgl.FilterSpecification = ["!", ["has", "point_count"]];
+  mp.addLayer({
+    id: `${source}-circle`,
+    type: "circle",
+    source,
+    filter: single,
+    paint: {
+      "circle-radius": 9,
+      "circle-color": paletteColor,
+      "circle-stroke-width": 2,
+      "circle-stroke-color": "#fff",
+    },
+  });
+  mp.addLayer({
+    id: `${source}-label`,
+    type: "symbol",
+    source,
+    filter: single,
+    layout: {
+      "text-field": ["to-string", ["+", ["get", "index"], 1]],
+      "text-font": LABEL_FONT,
+      "text-size": 11,
+      "text-allow-overlap": true,
+      "text-ignore-placement": true,
+    },
+    paint: { "text-color": "#fff" },
+  });
+};
+
+// the shared stop, outline and overview sources and their layers, once per style
+const ensureStopLayers = (mp: mapboxgl.Map) => {
+  if (mp.getSource(STOP_SOURCE)) return;
+  mp.addSource(OUTLINE_SOURCE, { type: "geojson", data: emptyCollection() });
+  mp.addSource(STOP_SOURCE, { type: "geojson", data: emptyCollection() });
+  mp.addLayer({
+    id: `${OUTLINE_SOURCE}-fill`,
+    type: "fill",
+    source: OUTLINE_SOURCE,
+    // fallback circles only mark the spot
+    filter: ["!=", ["get", "fallback"], true],
+    paint: { "fill-color": paletteColor, "fill-opacity": 0.06 },
+  });
+  mp.addLayer({
+    id: `${OUTLINE_SOURCE}-line`,
+    type: "line",
+    source: OUTLINE_SOURCE,
+    layout: { "line-join": "round", "line-cap": "round" },
+    paint: {
+      "line-color": paletteColor,
+      "line-width": 2,
+      "line-dasharray": [4, 4],
+      "line-opacity": 0.95,
+    },
+  });
+  addStopLayers(mp, STOP_SOURCE);
+
+  // clusters only make sense for the whole country, so the overview has its own source
+  mp.addSource(OVERVIEW_SOURCE, {
+    type: "geojson",
+    data: emptyCollection(),
+    cluster: true,
+    clusterMaxZoom: 8,
+    clusterRadius: 40,
+  });
+  mp.addLayer({
+    id: CLUSTER_LAYER,
+    type: "circle",
+    source: OVERVIEW_SOURCE,
+    filter: ["has", "point_count"],
+    paint: {
+      "circle-color": "#004d00",
+      "circle-opacity": 0.85,
+      "circle-radius": ["step", ["get", "point_count"], 14, 10, 18, 30, 22],
+      "circle-stroke-width": 2,
+      "circle-stroke-color": "#fff",
+    },
+  });
+  mp.addLayer({
+    id: `${OVERVIEW_SOURCE}-count`,
+    type: "symbol",
+    source: OVERVIEW_SOURCE,
+    filter: ["has", "point_count"],
+    layout: {
+      "text-field": ["get", "point_count_abbreviated"],
+      "text-font": LABEL_FONT,
+      "text-size": 12,
+    },
+    paint: { "text-color": "#fff" },
+  });
+  addStopLayers(mp, OVERVIEW_SOURCE);
+};
+
 const MapView: React.FC<MapViewProps> = ({
-  points = [],
   initialCoordinates = [108.2772, 14.0583], // Vietnam center [lng, lat]
   initialZoom = 5,
   className,
 }) => {
+  // list of destinations (single place or itinerary) and the current selection come from the trip store
+  const {
+    itinerary: points,
+    setItinerary,
+    itineraryKind,
+    readOnly,
+    travelers,
+    expenses,
+    selectedDay,
+    setSelectedDay,
+    selectedPlace,
+    setSelectedPlace,
+  } = useTrip();
+
   useEffect(() => {
     console.log("MapView received points:", points);
     points.forEach((p, i) => {
@@ -58,17 +281,24 @@ const MapView: React.FC<MapViewProps> = ({
 
   const mapContainer = useRef<HTMLDivElement | null>(null);
   const map = useRef<mapboxgl.Map | null>(null);
-  const markers = useRef<mapboxgl.Marker[]>([]);
 
-  const outlinesRef = useRef(new Map<string, GeoJSON.Geometry | null>());
-
-  // Changed: for multi-day journeys default to first day (remove "Tất cả" as default)
-  const [selectedDay, setSelectedDay] = useState<number | "all">(
-    points.length > 1 ? points[0].day : "all"
-  );
+  // outline per stop (name + coordinates), so only new or moved stops are looked up again;
+  // null = nothing found, drawn as a small circle
+  const outlineByStop = useRef(new Map<string, GeoJSON.Geometry | null>());
+  const stopOutline = (p: MapPoint) => {
+    const { lat, lng } = normalizeCoords(p.lat, p.lng);
+    if (!hasCoords(lat, lng)) return null;
+    return outlineByStop.current.get(boundaryKey({ name: p.name ?? "", lat, lng })) ?? null;
+  };
 
-  // loading state: true while we are fetching boundaries / updating map and when map is moving
-  const [mapLoading, setMapLoading] = useState(false);
+  // boundaryKey of the stops whose outline is still being looked up, for the day list
+  const [loadingStops, setLoadingStops] = useState<ReadonlySet<string>>(() => new Set());
+  const isStopLoading = (p: MapPoint) => {
+    const { lat, lng } = normalizeCoords(p.lat, p.lng);
+    return (
+      hasCoords(lat, lng) && loadingStops.has(boundaryKey({ name: p.name ?? "", lat, lng }))
+    );
+  };
 
   // images state for selected place
   type ImageItem = {
@@ -87,29 +317,12 @@ const MapView: React.FC<MapViewProps> = ({
     loading: boolean;
     error?: string;
     images: ImageItem[];
-    weather?: {
-      tempC: number;
-      description: string;
-      icon?: string;
-      humidity?: number;
-      windSpeed?: number;
-    } | null;
+    weather?: Weather | null;
     weatherLoading?: boolean;
   } | null>(null);
 
   const imagesCache = useRef(new Map<string, ImageItem[]>());
-  const weatherCache = useRef(
-    new Map<
-      string,
-      {
-        tempC: number;
-        description: string;
-        icon?: string;
-        humidity?: number;
-        windSpeed?: number;
-      }
-    >()
-  );
+  const weatherCache = useRef(new Map<string, Weather>());
 
   // group points by day for tab UI
   const daysGroup = React.useMemo(() => {
@@ -122,133 +335,112 @@ const MapView: React.FC<MapViewProps> = ({
     return m;
   }, [points]);
 
-  // Parse and collect per-day budgets if the AI provided them in points
-  const parseBudgetValue = (
-    v: unknown
-  ): {
-    amount?: number;
-    currency?: string;
-    perPerson?: number;
-    note?: string;
-  } | null => {
-    if (v === null || v === undefined) return null;
-    if (typeof v === "number") return { amount: v };
-    if (typeof v === "string") {
-      // try to extract numeric value and optional currency
-      const s = String(v).trim();
-      const m = s.match(/([0-9,.\s]+)\s*([A-Za-z₫$]*)/);
-      if (m) {
-        const numStr = m[1].replace(/[,\s]+/g, "").replace(/\.(?=.*\.)/g, "");
-        const amt = Number(numStr);
-        const cur = (m[2] || "").trim() || undefined;
-        return { amount: isFinite(amt) ? amt : undefined, currency: cur };
-      }
-      return null;
-    }
-    if (typeof v === "object") {
-      const o = v as Record<string, unknown>;
-      const total =
-        typeof o["total"] === "number"
-          ? (o["total"] as number)
-          : typeof o["amount"] === "number"
-          ? (o["amount"] as number)
-          : undefined;
-      const currency =
-        typeof o["currency"] === "string"
-          ? (o["currency"] as string)
-          : undefined;
-      const perPerson =
-        typeof o["perPerson"] === "number"
-          ? (o["perPerson"] as number)
-          : undefined;
-      const note =
-        typeof o["note"] === "string" ? (o["note"] as string) : undefined;
-      return { amount: total, currency, perPerson, note };
-    }
-    return null;
-  };
+  // "Tất cả": every day at once, each in its own color
+  const tripDays = React.useMemo(
+    () => [...daysGroup.keys()].sort((a, b) => a - b),
+    [daysGroup]
+  );
+  const overview = selectedDay === "all" && tripDays.length > 1;
+  const dayColorSlot = (day: number) => Math.max(0, tripDays.indexOf(day));
+
+  // per day: [lng, lat] of the stops that can be routed, and which stop each one is
+  const dayCoords = React.useMemo(() => {
+    const m = new Map<number, { coords: [number, number][]; stops: number[] }>();
+    daysGroup.forEach((list, day) => {
+      const entry = { coords: [] as [number, number][], stops: [] as number[] };
+      list.forEach((p, i) => {
+        const { lat, lng } = normalizeCoords(p.lat, p.lng);
+        if (!hasCoords(lat, lng)) return;
+        entry.coords.push([lng, lat]);
+        entry.stops.push(i);
+      });
+      m.set(day, entry);
+    });
+    return m;
+  }, [daysGroup]);
 
-  const dayBudgets = React.useMemo(() => {
-    const m = new Map<
-      number,
-      { amount?: number; currency?: string; perPerson?: number; note?: string }
-    >();
-    for (const p of points) {
-      try {
-        const d = Number(p.day ?? 0);
-        const po = p as unknown as Record<string, unknown>;
-        const candidate =
-          po["budget"] ??
-          po["cost"] ??
-          po["estimatedBudget"] ??
-          po["dayBudget"] ??
-          po["price"];
-        const parsed = parseBudgetValue(candidate);
-        if (parsed && parsed.amount !== undefined) {
-          m.set(d, parsed);
-          continue;
+  // road route per day with the routeKey of the stops it was computed for
+  const [dayRoutes, setDayRoutes] = useState(
+    new Map<number, { key: string; route: RouteResult }>()
+  );
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    setDayRoutes((prev) => {
+      const kept = new Map<number, { key: string; route: RouteResult }>();
+      prev.forEach((r, day) => {
+        if (dayCoords.has(day)) kept.set(day, r);
+      });
+      return kept;
+    });
+    (async () => {
+      for (const [day, { coords }] of dayCoords) {
+        try {
+          const route = await fetchRoute(coords, ctrl.signal);
+          if (ctrl.signal.aborted) return;
+          setDayRoutes((prev) => {
+            const next = new Map(prev);
+            if (route) next.set(day, { key: routeKey(coords), route });
+            else next.delete(day);
+            return next;
+          });
+        } catch (e) {
+          if (ctrl.signal.aborted) return;
+          console.warn(`Routing day ${day} failed`, e);
         }
-        // If the point itself is an object representing a day (rare), try nested keys
-        // (left intentionally permissive to work with a variety of AI outputs)
-      } catch {
-        // ignore parse errors for robustness
       }
-    }
-    return m;
+    })();
+    return () => ctrl.abort();
+  }, [dayCoords]);
+
+  // only the route through the day's current stops, in their current order (after an edit the
+  // old one is dropped until the new one arrives)
+  const routeForDay = (day: number) => {
+    const entry = dayRoutes.get(day);
+    const coords = dayCoords.get(day)?.coords;
+    return entry && coords && entry.key === routeKey(coords) ? entry.route : undefined;
+  };
+
+  // warm the boundary cache for every day, so switching days doesn't wait on Nominatim
+  useEffect(() => {
+    const stops = points
+      .filter((p) => !p.geojson && p.name)
+      .map((p) => ({ name: p.name, ...normalizeCoords(p.lat, p.lng) }))
+      .filter((p) => hasCoords(p.lat, p.lng));
+    if (stops.length === 0) return;
+    const ctrl = new AbortController();
+    void prefetchBoundaries(stops, ctrl.signal);
+    return () => ctrl.abort();
   }, [points]);
 
-  const formatBudget = (
-    b:
-      | {
-          amount?: number;
-          currency?: string;
-          perPerson?: number;
-          note?: string;
-        }
-      | undefined
-      | null
-  ) => {
-    if (
-      !b ||
-      b.amount === undefined ||
-      b.amount === null ||
-      Number.isNaN(b.amount)
-    )
-      return null;
-    try {
-      // prefer currency for formatting when known
-      if (
-        b.currency &&
-        (b.currency.toUpperCase() === "VND" || b.currency.includes("₫"))
-      ) {
-        return `${new Intl.NumberFormat("vi-VN").format(b.amount)} ₫${
-          b.perPerson
-            ? ` • /người ${new Intl.NumberFormat("vi-VN").format(b.perPerson)}`
-            : ""
-        }`;
-      }
-      if (b.currency && b.currency.length > 0) {
-        return `${new Intl.NumberFormat("en-US", {
-          style: "currency",
-          currency: b.currency,
-        }).format(b.amount)}${
-          b.perPerson
-            ? ` • /người ${new Intl.NumberFormat("en-US", {
-                style: "currency",
-                currency: b.currency,
-              }).format(b.perPerson)}`
-            : ""
-        }`;
-      }
-      // fallback numeric format (Vietnamese thousands separator)
-      return `${new Intl.NumberFormat("vi-VN").format(b.amount)}${
-        b.perPerson
-          ? ` • /người ${new Intl.NumberFormat("vi-VN").format(b.perPerson)}`
-          : ""
-      }`;
-    } catch {
-      return `${b.amount}${b.currency ? ` ${b.currency}` : ""}`;
-    }
+  // AI coordinates cross-checked against the geocoder
+  const { checkFor, dismiss: dismissCheck } = usePlaceVerification(points, !readOnly);
+
+  // per-day budget totals from the stops' and days' budget lines
+  const { convert, formatConverted } = useCurrency();
+  const budget = React.useMemo(
+    () => summarizeBudget(points, travelers, convert),
+    [points, travelers, convert]
+  );
+  const dayBudgets = budget.days;
+  const daySpent = React.useMemo(
+    () => spentByDay(expenses, budget.currency, convert),
+    [expenses, budget.currency, convert]
+  );
+  // logged spending above a day's estimate
+  const dayOverspend = (day: number) => {
+    const estimate = dayBudgets.get(day)?.total ?? 0;
+    const spent = daySpent.get(day) ?? 0;
+    return estimate > 0 && spent > estimate ? spent - estimate : 0;
+  };
+
+  const formatDayBudget = (day: number) => {
+    const t = dayBudgets.get(day);
+    if (!t || t.total <= 0) return null;
+    const total = formatMoney(t.total, budget.currency);
+    return travelers > 1
+      ? `${total} • ${formatMoney(t.total / travelers, budget.currency)}/người`
+      : total;
   };
 
   useEffect(() => {
@@ -260,81 +452,47 @@ const MapView: React.FC<MapViewProps> = ({
       zoom: initialZoom,
     });
 
-    // attach load listener so we can react after the map is ready
-    const onLoad = () => {
-      // nothing immediate to do on load - updateMapView will set the loading state
-    };
-
-    map.current.on("load", onLoad);
+    // stop popups and cluster zoom; the layers are added by the first map update
+    const mp = map.current;
+    for (const layer of [STOP_LAYER, OVERVIEW_LAYER]) {
+      mp.on("click", layer, (e) => {
+        const f = e.features?.[0];
+        if (!f || f.geometry.type !== "Point") return;
+        new mapboxgl.Popup({ offset: 12 })
+          .setLngLat(f.geometry.coordinates as [number, number])
+          .setDOMContent(stopPopup({ ...f.properties, overview: layer === OVERVIEW_LAYER }))
+          .addTo(mp);
+      });
+    }
+    mp.on("click", CLUSTER_LAYER, (e) => {
+      const f = e.features?.[0];
+      if (!f || f.geometry.type !== "Point") return;
+      const center = f.geometry.coordinates as [number, number];
+      (mp.getSource(OVERVIEW_SOURCE) as mapboxgl.GeoJSONSource).getClusterExpansionZoom(
+        f.properties?.cluster_id,
+        (err, zoom) => {
+          if (!err && zoom != null) mp.easeTo({ center, zoom });
+        }
+      );
+    });
+    for (const layer of [STOP_LAYER, OVERVIEW_LAYER, CLUSTER_LAYER]) {
+      mp.on("mouseenter", layer, () => {
+        mp.getCanvas().style.cursor = "pointer";
+      });
+      mp.on("mouseleave", layer, () => {
+        mp.getCanvas().style.cursor = "";
+      });
+    }
 
     return () => {
-      markers.current.forEach((m) => m.remove());
-      // remove listeners if map exists
-      if (map.current) {
-        try {
-          map.current.off("load", onLoad);
-        } catch {
-          // ignore
-        }
-        map.current.remove();
-        map.current = null;
-      }
+      mp.remove();
+      map.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // helper: create circle polygon (approx) around lon/lat with radius (meters)
-  const makeCircle = (lng: number, lat: number, radius = 2000, steps = 64) => {
-    const coords: [number, number][] = [];
-    const earthCircumference = 40075000; // meters
-    const degPerMeterLat = 360 / earthCircumference;
-    for (let i = 0; i < steps; i++) {
-      const theta = (i / steps) * Math.PI * 2;
-      const dLat = radius * Math.cos(theta) * degPerMeterLat;
-      const dLng =
-        (radius * Math.sin(theta) * degPerMeterLat) /
-        Math.cos((lat * Math.PI) / 180);
-      coords.push([lng + dLng, lat + dLat]);
-    }
-    coords.push(coords[0]);
-    return {
-      type: "Feature",
-      geometry: { type: "Polygon", coordinates: [coords] },
-      properties: {},
-    } as GeoJSON.Feature<GeoJSON.Polygon>;
-  };
-
-  const clearOutlineLayers = () => {
-    if (!map.current) return;
-    const mp = map.current;
-    if (!mp.loaded && !mp.loaded()) return;
-    const layers = mp.getStyle().layers ?? [];
-    layers.forEach((layer) => {
-      if (layer.id.startsWith("outline-")) {
-        try {
-          if (mp.getLayer(layer.id)) mp.removeLayer(layer.id);
-        } catch (e) {
-          console.error(e);
-        }
-      }
-    });
-    Object.keys(mp.getStyle().sources ?? {}).forEach((srcId) => {
-      if (srcId.startsWith("outline-")) {
-        try {
-          if (mp.getSource(srcId)) mp.removeSource(srcId);
-        } catch (e) {
-          console.error(e);
-        }
-      }
-    });
-  };
-
-  const clearMarkers = () => {
-    markers.current.forEach((m) => m.remove());
-    markers.current = [];
-  };
-
   const fitToPoints = (pts: MapPoint[], padding = 80, maxZoom?: number) => {
+    pts = pts.filter((p) => hasCoords(p.lat, p.lng));
     if (!map.current || pts.length === 0) return;
     const bounds = new mapboxgl.LngLatBounds(
       [pts[0].lng, pts[0].lat],
@@ -345,66 +503,19 @@ const MapView: React.FC<MapViewProps> = ({
   };
 
   const normalizeLatLng = (p: MapPoint) => {
-    // robust parsing: accept strings with comma decimal separators and noisy chars
-    const parse = (v: unknown): number => {
-      if (v === null || v === undefined) return NaN;
-      if (typeof v === "number") return v;
-      let s = String(v).trim();
-      // convert comma decimal to dot (e.g. "10,123" -> "10.123") but avoid thousands separators
-      // if there are both '.' and ',' assume '.' is decimal and remove commas; otherwise replace comma with dot
-      if (s.indexOf(".") >= 0 && s.indexOf(",") >= 0) {
-        s = s.replace(/,/g, "");
-      } else {
-        s = s.replace(/,/g, ".");
-      }
-      // strip any non-numeric/non-dot/non-minus characters
-      s = s.replace(/[^0-9.-]+/g, "");
-      const n = parseFloat(s);
-      return isFinite(n) ? n : NaN;
-    };
-
-    const rawLat = parse(p.lat);
-    const rawLng = parse(p.lng);
-
-    if (isNaN(rawLat) || isNaN(rawLng)) {
+    const { lat, lng, swapped } = normalizeCoords(p.lat, p.lng);
+    if (isNaN(lat) || isNaN(lng)) {
       console.warn("MapView: invalid coords for", p.name, {
         rawLat: p.lat,
         rawLng: p.lng,
-        parsedLat: rawLat,
-        parsedLng: rawLng,
       });
-      return { lat: rawLat || 0, lng: rawLng || 0 };
-    }
-
-    // If latitude looks invalid (> 90) but longitude is valid, assume swapped
-    let finalLat = rawLat;
-    let finalLng = rawLng;
-    if (Math.abs(rawLat) > 90 && Math.abs(rawLng) <= 90) {
-      finalLat = rawLng;
-      finalLng = rawLat;
+    } else if (swapped) {
       console.debug("MapView: swapped lat/lng (heuristic) for", p.name, {
-        rawLat,
-        rawLng,
-        finalLat,
-        finalLng,
+        lat,
+        lng,
       });
-    } else {
-      // Heuristic for Vietnam: lat roughly between 6..24, lng roughly between 102..110
-      const looksLikeLat = (v: number) => v >= 6 && v <= 30;
-      const looksLikeLng = (v: number) => v >= 95 && v <= 120;
-      if (looksLikeLat(rawLng) && looksLikeLng(rawLat)) {
-        // looks swapped
-        finalLat = rawLng;
-        finalLng = rawLat;
-        console.debug(
-          "MapView: swapped lat/lng based on VN heuristics for",
-          p.name,
-          { rawLat, rawLng, finalLat, finalLng }
-        );
-      }
     }
-
-    return { lat: finalLat, lng: finalLng };
+    return { lat, lng };
   };
 
   const slug = (s = "") =>
@@ -432,154 +543,6 @@ const MapView: React.FC<MapViewProps> = ({
     ];
   };
 
-  const fetchBoundaryFromNominatim = async (p: MapPoint) => {
-    try {
-      const q = encodeURIComponent(p.name);
-      const searchUrl = `https://nominatim.openstreetmap.org/search?format=jsonv2&q=${q}&polygon_geojson=1&limit=1&countrycodes=vn`;
-      const headers = {
-        Accept: "application/json",
-        "User-Agent": "vietnam-journey-bot/1.0 (you@yourdomain.example)",
-      };
-
-      const res = await fetch(searchUrl, { headers });
-      if (!res.ok) return null;
-      const raw = await res.json();
-      if (!Array.isArray(raw) || raw.length === 0) return null;
-
-      type NominatimResult = {
-        geojson?: GeoJSON.Geometry;
-        class?: string;
-        boundingbox?: unknown[];
-        osm_type?: string;
-        osm_id?: number | string;
-      };
-
-      const arr = raw as unknown[];
-      const results: NominatimResult[] = arr.filter(
-        (x): x is NominatimResult => typeof x === "object" && x !== null
-      ) as NominatimResult[];
-
-      // Prefer results that include polygon geojson first
-      let candidate = results.find(
-        (r) =>
-          r.geojson &&
-          (r.geojson.type === "Polygon" || r.geojson.type === "MultiPolygon")
-      );
-
-      // If none has polygon, prefer entries whose class indicates a place-area (tourism, natural, landuse, leisure, historic)
-      if (!candidate) {
-        const preferred = [
-          "tourism",
-          "natural",
-          "landuse",
-          "leisure",
-          "historic",
-        ];
-        candidate = results.find(
-          (r) => r.class !== undefined && preferred.includes(String(r.class))
-        );
-      }
-
-      // As further fallback pick the result with largest bounding box area (more likely to be the area, not a single POI)
-      if (!candidate) {
-        let best: NominatimResult | null = null;
-        let bestArea = 0;
-        for (const a of results) {
-          if (Array.isArray(a.boundingbox) && a.boundingbox.length === 4) {
-            const vals = a.boundingbox.map((v) => Number(v));
-            const minLat = Math.min(vals[0], vals[1]);
-            const maxLat = Math.max(vals[0], vals[1]);
-            const minLng = Math.min(vals[2], vals[3]);
-            const maxLng = Math.max(vals[2], vals[3]);
-            const area = Math.abs((maxLat - minLat) * (maxLng - minLng));
-            if (area > bestArea) {
-              bestArea = area;
-              best = a;
-            }
-          }
-        }
-        candidate = best ?? results[0];
-      }
-
-      const first = candidate;
-
-      // If candidate has polygon geojson, return it
-      if (
-        first?.geojson &&
-        (first.geojson.type === "Polygon" ||
-          first.geojson.type === "MultiPolygon")
-      ) {
-        return first.geojson as GeoJSON.Geometry;
-      }
-
-      // Try details lookup for the chosen candidate (using its osm_type/osm_id) to retrieve polygon geometry
-      const osm_type = first?.osm_type; // e.g. "relation","way","node"
-      const osm_id = first?.osm_id;
-      if (osm_type && osm_id) {
-        const mapType: Record<string, string> = {
-          relation: "R",
-          way: "W",
-          node: "N",
-        };
-        const osmTypeLetter =
-          mapType[String(osm_type).toLowerCase()] ??
-          String(osm_type).charAt(0).toUpperCase();
-        const detailsUrl = `https://nominatim.openstreetmap.org/details.php?osmtype=${osmTypeLetter}&osmid=${osm_id}&format=json&polygon_geojson=1`;
-        const detailsRes = await fetch(detailsUrl, { headers });
-        if (detailsRes.ok) {
-          const details = await detailsRes.json();
-          if (
-            details?.geojson &&
-            (details.geojson.type === "Polygon" ||
-              details.geojson.type === "MultiPolygon")
-          ) {
-            return details.geojson as GeoJSON.Geometry;
-          }
-          if (
-            details?.polygon_geojson &&
-            (details.polygon_geojson.type === "Polygon" ||
-              details.polygon_geojson.type === "MultiPolygon")
-          ) {
-            return details.polygon_geojson as GeoJSON.Geometry;
-          }
-        }
-      }
-
-      if (
-        first?.boundingbox &&
-        Array.isArray(first.boundingbox) &&
-        first.boundingbox.length === 4
-      ) {
-        // boundingbox from nominatim may return [south, north, west, east]
-        const vals = first.boundingbox.map(Number);
-        const minLatVal = Math.min(vals[0], vals[1]);
-        const maxLatVal = Math.max(vals[0], vals[1]);
-        const minLngVal = Math.min(vals[2], vals[3]);
-        const maxLngVal = Math.max(vals[2], vals[3]);
-        const poly: GeoJSON.Feature<GeoJSON.Polygon> = {
-          type: "Feature",
-          properties: {},
-          geometry: {
-            type: "Polygon",
-            coordinates: [
-              [
-                [minLngVal, minLatVal],
-                [maxLngVal, minLatVal],
-                [maxLngVal, maxLatVal],
-                [minLngVal, maxLatVal],
-                [minLngVal, minLatVal],
-              ],
-            ],
-          },
-        };
-        return poly.geometry;
-      }
-    } catch (e) {
-      console.warn("Boundary fetch failed for", p.name, e);
-    }
-    return null;
-  };
-
   // helper to compute bounding box of a GeoJSON geometry (returns [minLng,minLat,maxLng,maxLat])
   const geometryBBox = (
     g: GeoJSON.Geometry
@@ -646,282 +609,241 @@ const MapView: React.FC<MapViewProps> = ({
     }
   };
 
-  // update map view when points or selectedDay change
+  // update map view when points or selectedDay change: stops are replaced at once, outlines
+  // as their lookups finish; only stops whose name or coordinates changed are looked up.
+  // A newer update aborts this one, which then stops drawing and starting lookups.
   useEffect(() => {
     const mp = map.current;
     if (!mp) return;
+    const ctrl = new AbortController();
+    const { signal } = ctrl;
 
     const updateMapView = async () => {
-      setMapLoading(true);
-      try {
-        // If multi-day journey, we no longer use "all" — show only active day
-        const activePoints: MapPoint[] =
-          selectedDay === "all"
-            ? points.length === 1
-              ? points
-              : points.filter((p) => p.day === points[0].day)
-            : points.filter((p) => p.day === selectedDay);
-
-        clearOutlineLayers();
-        clearMarkers();
-
-        if (activePoints.length === 0) {
-          mp.flyTo({ center: initialCoordinates, zoom: initialZoom });
-          return;
-        }
-
-        // we'll compute a combined bounds so fit can zoom appropriately (closer if bbox small)
-        let combinedBounds: mapboxgl.LngLatBounds | null = null;
-
-        // sequentially process points (safer re: external requests)
-        for (let idx = 0; idx < activePoints.length; idx++) {
-          const p0 = activePoints[idx];
-          // normalize coordinates (fix swapped lat/lng from upstream if any)
-          const { lat, lng } = normalizeLatLng(p0);
-
-          const el = document.createElement("div");
-          el.className = "map-marker";
-          el.style.width = "12px";
-          el.style.height = "12px";
-          el.style.borderRadius = "50%";
-          el.style.background = "#fff";
-          el.style.border = `2px solid ${
-            DEFAULT_PALETTE[idx % DEFAULT_PALETTE.length]
-          }`;
-          el.style.boxShadow = "0 0 6px rgba(0,0,0,0.12)";
-          el.title = p0.name ?? "";
-
-          const marker = new mapboxgl.Marker({ element: el })
-            .setLngLat([lng, lat]) // use normalized order [lng, lat]
-            .addTo(mp);
-          markers.current.push(marker);
-
-          const popupEl = document.createElement("div");
-          popupEl.style.fontSize = "13px";
-          const titleEl = document.createElement("div");
-          titleEl.style.fontWeight = "600";
-          titleEl.style.marginBottom = "4px";
-          titleEl.textContent = p0.name ?? "";
-          popupEl.appendChild(titleEl);
-          if (p0.desc) {
-            const descEl = document.createElement("div");
-            descEl.style.marginBottom = "6px";
-            descEl.textContent = p0.desc;
-            popupEl.appendChild(descEl);
-          }
-          if (p0.source) {
-            const linkEl = document.createElement("a");
-            linkEl.href = p0.source;
-            linkEl.target = "_blank";
-            linkEl.rel = "noreferrer";
-            linkEl.style.color = "#1d4ed8";
-            linkEl.style.textDecoration = "underline";
-            linkEl.textContent = "Nguồn đọc thêm";
-            popupEl.appendChild(linkEl);
-          }
-          const popup = new mapboxgl.Popup({ offset: 10 }).setDOMContent(
-            popupEl
-          );
-          marker.setPopup(popup);
-
-          let geometry: GeoJSON.Geometry | null = null;
-          if (p0.geojson) {
-            const gj = p0.geojson as unknown;
-            // FeatureCollection
-            if (
-              typeof gj === "object" &&
-              gj !== null &&
-              "type" in gj &&
-              (gj as { type?: unknown }).type === "FeatureCollection"
-            ) {
-              const fc = gj as GeoJSON.FeatureCollection;
-              const polyFeat = fc.features?.find(
-                (f) =>
-                  !!f.geometry &&
-                  (f.geometry.type === "Polygon" ||
-                    f.geometry.type === "MultiPolygon" ||
-                    f.geometry.type === "MultiLineString" ||
-                    f.geometry.type === "LineString")
-              );
-              if (polyFeat) geometry = polyFeat.geometry;
-              else if (fc.features && fc.features[0] && fc.features[0].geometry)
-                geometry = fc.features[0].geometry;
-            } else if (typeof gj === "object" && gj !== null && "type" in gj) {
-              // plain geometry with type
-              geometry = gj as GeoJSON.Geometry;
-            } else if (
-              typeof gj === "object" &&
-              gj !== null &&
-              "features" in gj
-            ) {
-              const maybe = gj as { features?: unknown };
-              if (Array.isArray(maybe.features)) {
-                const fc = gj as GeoJSON.FeatureCollection;
-                const polyFeat = fc.features?.find(
-                  (f) =>
-                    !!f.geometry &&
-                    (f.geometry.type === "Polygon" ||
-                      f.geometry.type === "MultiPolygon" ||
-                      f.geometry.type === "MultiLineString" ||
-                      f.geometry.type === "LineString")
-                );
-                if (polyFeat) geometry = polyFeat.geometry;
-              }
-            }
-          }
-
-          if (!geometry) {
-            geometry = await fetchBoundaryFromNominatim(p0);
-          }
-
-          const color = DEFAULT_PALETTE[idx % DEFAULT_PALETTE.length];
-          const srcId = `outline-${p0.day ?? 0}-${idx}-${slug(p0.name)}`;
-          outlinesRef.current.set(srcId, geometry ?? null);
-
-          if (
-            geometry &&
-            (geometry.type === "Polygon" ||
-              geometry.type === "MultiPolygon" ||
-              geometry.type === "LineString" ||
-              geometry.type === "MultiLineString")
-          ) {
-            const feat: GeoJSON.Feature = {
-              type: "Feature",
-              properties: {},
-              geometry: geometry as GeoJSON.Geometry,
-            };
-
-            if (!mp.getSource(srcId)) {
-              mp.addSource(srcId, { type: "geojson", data: feat });
-            } else {
-              (mp.getSource(srcId) as mapboxgl.GeoJSONSource).setData(feat);
-            }
-
-            const fillId = `${srcId}-fill`;
-            if (!mp.getLayer(fillId)) {
-              mp.addLayer({
-                id: fillId,
-                type: "fill",
-                source: srcId,
-                paint: {
-                  "fill-color": color,
-                  "fill-opacity": 0.06,
-                },
-              });
-            }
+      ensureStopLayers(mp);
+
+      // the whole trip: numbered stops in day colors, no outlines (country-wide they are noise
+      // and would mean a lookup for every stop at once)
+      if (overview) {
+        setSourceData(mp, STOP_SOURCE, []);
+        setSourceData(mp, OUTLINE_SOURCE, []);
+        const all = tripDays
+          .flatMap((day) =>
+            (daysGroup.get(day) ?? []).map((p, index) => ({ p, index, ...normalizeLatLng(p) }))
+          )
+          .filter((s) => hasCoords(s.lat, s.lng));
+        setSourceData(
+          mp,
+          OVERVIEW_SOURCE,
+          all.map(({ p, index, lat, lng }) => ({
+            type: "Feature",
+            properties: {
+              day: p.day,
+              index,
+              color: dayColorSlot(p.day),
+              name: p.name,
+              desc: p.desc,
+              source: p.source,
+            },
+            geometry: { type: "Point", coordinates: [lng, lat] },
+          }))
+        );
+        if (all.length === 0) return;
+        const bounds = new mapboxgl.LngLatBounds([all[0].lng, all[0].lat], [all[0].lng, all[0].lat]);
+        all.forEach((s) => bounds.extend([s.lng, s.lat]));
+        mp.fitBounds(bounds, { padding: 80, maxZoom: 12 });
+        return;
+      }
+      setSourceData(mp, OVERVIEW_SOURCE, []);
+
+      // a single stop has no day tabs; otherwise the selected day
+      const activePoints: MapPoint[] =
+        selectedDay === "all"
+          ? points.length === 1
+            ? points
+            : points.filter((p) => p.day === points[0].day)
+          : points.filter((p) => p.day === selectedDay);
+      const stops = activePoints
+        .map((p, index) => ({
+          p,
+          index,
+          ...normalizeLatLng(p),
+        }))
+        .filter((s) => hasCoords(s.lat, s.lng))
+        .map((s) => ({ ...s, key: boundaryKey({ name: s.p.name ?? "", lat: s.lat, lng: s.lng }) }));
+
+      setSourceData(
+        mp,
+        STOP_SOURCE,
+        stops.map(({ p, index, lat, lng }) => ({
+          type: "Feature",
+          properties: {
+            day: p.day,
+            index,
+            color: index,
+            name: p.name,
+            desc: p.desc,
+            source: p.source,
+          },
+          geometry: { type: "Point", coordinates: [lng, lat] },
+        }))
+      );
 
-            const lineId = `${srcId}-line`;
-            if (!mp.getLayer(lineId)) {
-              mp.addLayer({
-                id: lineId,
-                type: "line",
-                source: srcId,
-                layout: { "line-join": "round", "line-cap": "round" },
-                paint: {
-                  "line-color": color,
-                  "line-width": 2,
-                  "line-dasharray": [4, 4],
-                  "line-opacity": 0.95,
+      // stops still being looked up get no outline yet
+      const outlineFeatures = () =>
+        stops.flatMap(({ p, index, lat, lng, key }): GeoJSON.Feature[] => {
+          if (!outlineByStop.current.has(key)) return [];
+          const geometry = outlineByStop.current.get(key);
+          return [
+            geometry && DRAWABLE.has(geometry.type)
+              ? { type: "Feature", properties: { day: p.day, index, color: index }, geometry }
+              : {
+                  type: "Feature",
+                  properties: { day: p.day, index, color: index, fallback: true },
+                  geometry: circlePolygon([lng, lat], 2000),
                 },
-              });
-            }
-
-            const b = geometryBBox(geometry);
-            if (b) {
-              const expanded = expandBBox(b, 0.06);
-              if (!combinedBounds) {
-                combinedBounds = new mapboxgl.LngLatBounds(
-                  [expanded[0], expanded[1]],
-                  [expanded[2], expanded[3]]
-                );
-              } else {
-                combinedBounds.extend([expanded[0], expanded[1]]);
-                combinedBounds.extend([expanded[2], expanded[3]]);
-              }
-            } else {
-              if (!combinedBounds)
-                combinedBounds = new mapboxgl.LngLatBounds(
-                  [lng, lat],
-                  [lng, lat]
-                );
-              else combinedBounds.extend([lng, lat]);
-            }
-          } else {
-            // fallback circle around normalized point
-            const feature = makeCircle(lng, lat, 2000); // slightly smaller radius
-            if (!mp.getSource(srcId)) {
-              mp.addSource(srcId, { type: "geojson", data: feature });
-            } else {
-              (mp.getSource(srcId) as mapboxgl.GeoJSONSource).setData(feature);
-            }
+          ];
+        });
+      setSourceData(mp, OUTLINE_SOURCE, outlineFeatures());
 
-            const layerId = `${srcId}-line`;
-            if (!mp.getLayer(layerId)) {
-              mp.addLayer({
-                id: layerId,
-                type: "line",
-                source: srcId,
-                layout: { "line-join": "round", "line-cap": "round" },
-                paint: {
-                  "line-color": color,
-                  "line-width": 2,
-                  "line-dasharray": [4, 4],
-                  "line-opacity": 0.95,
-                },
-              });
-            }
+      if (activePoints.length === 0) {
+        mp.flyTo({ center: initialCoordinates, zoom: initialZoom });
+        return;
+      }
 
-            // expand small box around point to allow close zoom but still keep outline near edge
-            const delta = 0.008; // smaller than previous 0.02 for closer zoom
-            const circB: [number, number, number, number] = [
-              lng - delta,
-              lat - delta,
-              lng + delta,
-              lat + delta,
-            ];
-            const expanded = expandBBox(circB, 0.04);
-            if (!combinedBounds) {
-              combinedBounds = new mapboxgl.LngLatBounds(
-                [expanded[0], expanded[1]],
-                [expanded[2], expanded[3]]
-              );
-            } else {
-              combinedBounds.extend([expanded[0], expanded[1]]);
-              combinedBounds.extend([expanded[2], expanded[3]]);
-            }
+      // we'll compute a combined bounds so fit can zoom appropriately (closer if bbox small)
+      const fitStops = () => {
+        let combinedBounds: mapboxgl.LngLatBounds | null = null;
+        const extend = (b: [number, number, number, number]) => {
+          if (!combinedBounds) combinedBounds = new mapboxgl.LngLatBounds([b[0], b[1]], [b[2], b[3]]);
+          else {
+            combinedBounds.extend([b[0], b[1]]);
+            combinedBounds.extend([b[2], b[3]]);
           }
+        };
+        for (const { lat, lng, key } of stops) {
+          const geometry = outlineByStop.current.get(key);
+          const b = geometry && DRAWABLE.has(geometry.type) ? geometryBBox(geometry) : null;
+          if (b) extend(expandBBox(b, 0.06));
+          // expand small box around point to allow close zoom but still keep outline near edge
+          else extend(expandBBox([lng - 0.008, lat - 0.008, lng + 0.008, lat + 0.008], 0.04));
         }
 
         // Fit bounds or flyTo with closer zoom and reduced padding so outlines are near edges
         if (combinedBounds) {
           mp.fitBounds(combinedBounds, { padding: 60, maxZoom: 17 });
-        } else if (activePoints.length === 1) {
-          const p0 = activePoints[0];
-          const { lat, lng } = normalizeLatLng(p0);
-          mp.flyTo({ center: [lng, lat], zoom: 16, speed: 0.8 });
         } else {
           fitToPoints(activePoints, 80, 16);
         }
-      } finally {
-        setMapLoading(false);
-      }
+      };
+      fitStops();
+
+      const missing = [
+        ...new Map(
+          stops.filter((s) => !outlineByStop.current.has(s.key)).map((s) => [s.key, s])
+        ).values(),
+      ];
+      if (missing.length === 0) return;
+
+      const settle = (keys: string[]) =>
+        setLoadingStops((prev) => {
+          const next = new Set(prev);
+          keys.forEach((k) => next.delete(k));
+          return next;
+        });
+      setLoadingStops((prev) => new Set([...prev, ...missing.map((s) => s.key)]));
+      // whatever this update didn't get to stops spinning once it is aborted
+      signal.addEventListener("abort", () => settle(missing.map((s) => s.key)));
+
+      let found = false;
+      await forEachLimit(
+        missing,
+        BOUNDARY_CONCURRENCY,
+        async ({ p, lat, lng, key }) => {
+          const geometry =
+            ownGeometry(p) ?? (await getBoundary({ name: p.name ?? "", lat, lng }));
+          // kept even when aborted: the next update won't have to look it up again
+          outlineByStop.current.set(key, geometry);
+          if (signal.aborted) return;
+          found ||= geometry !== null;
+          settle([key]);
+          setSourceData(mp, OUTLINE_SOURCE, outlineFeatures());
+        },
+        signal
+      );
+      // outlines are usually larger than the box around a point
+      if (found && !signal.aborted) fitStops();
     };
 
-    if (!mp.loaded || !mp.loaded()) {
-      mp.once("load", () => {
-        updateMapView().catch((e) => console.error(e));
-      });
-    } else {
+    const run = () => {
       updateMapView().catch((e) => console.error(e));
-    }
+    };
+    // "idle" rather than "load": loaded() is also false while tiles stream in
+    if (mp.isStyleLoaded()) run();
+    else mp.once("idle", run);
+    return () => {
+      mp.off("idle", run);
+      ctrl.abort();
+    };
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [points, selectedDay]);
 
-  // ensure mapLoading toggles off if component unmounts while true
+  // routed line through the active day's stops, or through every day in its color
   useEffect(() => {
-    return () => setMapLoading(false);
-  }, []);
+    const mp = map.current;
+    if (!mp) return;
+    const activeDay = selectedDay === "all" ? points[0]?.day : selectedDay;
+    const shownDays = overview ? tripDays : activeDay === undefined ? [] : [activeDay];
+    const data: GeoJSON.FeatureCollection = {
+      type: "FeatureCollection",
+      features: shownDays.flatMap((day): GeoJSON.Feature[] => {
+        const route = routeForDay(day);
+        return route
+          ? [
+              {
+                type: "Feature",
+                properties: overview ? { day, color: dayColorSlot(day) } : { day },
+                geometry: route.geometry,
+              },
+            ]
+          : [];
+      }),
+    };
+    const draw = () => {
+      const src = mp.getSource(ROUTE_SOURCE) as
+        | mapboxgl.GeoJSONSource
+        | undefined;
+      if (src) {
+        src.setData(data);
+        return;
+      }
+      mp.addSource(ROUTE_SOURCE, { type: "geojson", data });
+      // under the stop circles, above the outlines
+      mp.addLayer(
+        {
+          id: `${ROUTE_SOURCE}-line`,
+          type: "line",
+          source: ROUTE_SOURCE,
+          layout: { "line-join": "round", "line-cap": "round" },
+          paint: {
+            "line-color": ["case", ["has", "color"], paletteColor, "#004d00"],
+            "line-width": 4,
+            "line-opacity": 0.7,
+          },
+        },
+        mp.getLayer(STOP_LAYER) ? STOP_LAYER : undefined
+      );
+    };
+    // "idle" rather than "load": loaded() is also false while tiles stream in
+    if (!mp.isStyleLoaded()) {
+      mp.once("idle", draw);
+      return () => {
+        mp.off("idle", draw);
+      };
+    }
+    draw();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dayRoutes, dayCoords, selectedDay]);
 
   const zoomToPlace = (p: MapPoint, preferIdx?: number) => {
     if (!map.current) return;
@@ -929,8 +851,9 @@ const MapView: React.FC<MapViewProps> = ({
 
     // match srcId used when rendering outlines (best effort)
     const idx = typeof preferIdx === "number" ? preferIdx : 0;
+    setSelectedPlace({ day: p.day, index: idx });
     const srcId = `outline-${p.day ?? 0}-${idx}-${slug(p.name)}`;
-    const geom = outlinesRef.current.get(srcId) ?? null;
+    const geom = stopOutline(p);
 
     // Always trigger image loading for the clicked place (don't only fetch on fallback)
     try {
@@ -1035,6 +958,8 @@ const MapView: React.FC<MapViewProps> = ({
       }
     }
 
+    if (!hasCoords(lat, lng)) return;
+
     // fallback: use a tight bbox around point so outline will still be near edge
     const delta = 0.008;
     const bbox: [number, number, number, number] = [
@@ -1055,57 +980,25 @@ const MapView: React.FC<MapViewProps> = ({
     // image fetching already triggered above (no-op here)
   };
 
-  // helper: fetch current weather for a MapPoint using OpenWeatherMap (by lat/lng)
+  // helper: fetch current weather for a MapPoint (by lat/lng, via /api/weather)
   const fetchWeatherForPlace = async (p: MapPoint) => {
-    try {
-      const key = import.meta.env.VITE_OPENWEATHERMAP_KEY as string | undefined;
-      if (!key) return null;
-      // ensure we have numeric lat/lng
-      const { lat, lng } = normalizeLatLng(p);
-      const url = `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lng}&units=metric&appid=${key}&lang=vi`;
-      const res = await fetch(url);
-      if (!res.ok) return null;
-      const data = await res.json();
-      if (!data) return null;
-      const tempC =
-        typeof data.main?.temp === "number"
-          ? data.main.temp
-          : Number(data.main?.temp ?? NaN);
-      const description =
-        Array.isArray(data.weather) && data.weather[0]
-          ? String(data.weather[0].description ?? "")
-          : "";
-      const icon =
-        Array.isArray(data.weather) && data.weather[0]
-          ? String(data.weather[0].icon ?? "")
-          : undefined;
-      const humidity =
-        typeof data.main?.humidity === "number"
-          ? data.main.humidity
-          : undefined;
-      const windSpeed =
-        typeof data.wind?.speed === "number" ? data.wind.speed : undefined;
-      return { tempC, description, icon, humidity, windSpeed };
-    } catch (err) {
-      console.warn("fetchWeatherForPlace error", err);
-      return null;
-    }
+    const { lat, lng } = normalizeLatLng(p);
+    if (!hasCoords(lat, lng)) return null;
+    return fetchWeather(lat, lng);
   };
 
-  // helper: fetch images using Google Custom Search (Images)
-  // Requires two env vars: VITE_GOOGLE_API_KEY and VITE_GOOGLE_CX (search engine id)
+  // helper: fetch images using Google Custom Search (Images) through /api/images
+  // The server needs GOOGLE_API_KEY and GOOGLE_CX (search engine id)
   const fetchImagesForPlace = async (
     placeName: string,
     perPage = 6
   ): Promise<ImageItem[]> => {
     try {
-      const key = import.meta.env.VITE_GOOGLE_API_KEY as string | undefined;
-      const cx = import.meta.env.VITE_GOOGLE_CX as string | undefined;
-      if (!key || !cx) return [];
-      const q = encodeURIComponent(placeName || "Vietnam");
-      // Google Custom Search JSON API (image search)
-      const url = `https://www.googleapis.com/customsearch/v1?key=${key}&cx=${cx}&q=${q}&searchType=image&num=${perPage}`;
-      const res = await fetch(url);
+      const res = await fetch(
+        apiUrl("/api/images", { q: placeName || "Vietnam", num: perPage })
+      );
+      // image search not configured on the server: just show no images
+      if (res.status === 503) return [];
       if (!res.ok) throw new Error(`Google Image search failed: ${res.status}`);
       const data = await res.json();
       if (!data || !Array.isArray(data.items)) return [];
@@ -1141,19 +1034,94 @@ const MapView: React.FC<MapViewProps> = ({
     }
   };
 
-  // if points changed and there is only one global point, auto-select all and focus
-  useEffect(() => {
-    if (!points || points.length === 0) return;
-    if (points.length === 1) {
-      setSelectedDay("all");
-    } else {
-      // Changed: for multi-day journeys default to first day's number (remove "Tất cả")
-      setSelectedDay(points[0].day ?? points[0].day);
-    }
-  }, [points]);
+  // days added in the editor (or emptied by it) have no stops yet; they belong
+  // to the points they were created for and vanish when a new itinerary arrives
+  const [emptyDays, setEmptyDays] = useState<{
+    points: MapPoint[];
+    days: number[];
+  }>({ points, days: [] });
 
   // UI rendering: day tabs and list
-  const dayKeys = Array.from(daysGroup.keys()).sort((a, b) => a - b);
+  const dayKeys = Array.from(
+    new Set([
+      ...daysGroup.keys(),
+      ...(emptyDays.points === points ? emptyDays.days : []),
+    ])
+  ).sort((a, b) => a - b);
+
+  // itinerary editing: every change goes through the trip store so markers,
+  // outlines and autosave follow; days left without stops stay as empty tabs
+  const editItinerary = (next: MapPoint[], keepDays: number[] = []) => {
+    const days = dayKeys.filter(
+      (d) => keepDays.includes(d) || !next.some((p) => p.day === d)
+    );
+    setEmptyDays({ points: next, days });
+    setItinerary(next);
+    setSelectedPlace(null);
+  };
+
+  // a single-place answer gets a card; an itinerary keeps its editor however few stops are left
+  const placeCard = itineraryKind === "place" && points.length === 1;
+
+  const addDay = () => {
+    const day = nextDay(dayKeys);
+    editItinerary(points, [day]);
+    setSelectedDay(day);
+  };
+
+  // export: current road routes and the outlines looked up so far
+  const exportRoutes = new Map<number, GeoJSON.LineString>();
+  dayKeys.forEach((d) => {
+    const route = routeForDay(d);
+    if (route) exportRoutes.set(d, route.geometry);
+  });
+  const boundaryFor = (day: number, index: number) => {
+    const p = daysGroup.get(day)?.[index];
+    if (!p) return null;
+    return stopOutline(p);
+  };
+
+  const dragFrom = useRef<StopRef | null>(null);
+  // insertion slot (0..n) in a day's list, or index -1 for "end of day" (tab drop)
+  const [dropTarget, setDropTarget] = useState<StopRef | null>(null);
+
+  const dropOn = (target: StopRef) => {
+    const from = dragFrom.current;
+    dragFrom.current = null;
+    setDropTarget(null);
+    if (!from) return;
+    let index = target.index < 0 ? Infinity : target.index;
+    // the slot was counted with the dragged stop still in the list
+    if (from.day === target.day && index > from.index) index -= 1;
+    if (from.day === target.day && index === from.index) return;
+    editItinerary(moveStop(points, from, { day: target.day, index }));
+  };
+
+  const stopDragProps = (
+    day: number,
+    i: number
+  ): React.HTMLAttributes<HTMLLIElement> => ({
+    onDragStart: (e) => {
+      dragFrom.current = { day, index: i };
+      e.dataTransfer.effectAllowed = "move";
+    },
+    onDragOver: (e) => {
+      if (!dragFrom.current) return;
+      e.preventDefault();
+      const r = e.currentTarget.getBoundingClientRect();
+      const index = e.clientY < r.top + r.height / 2 ? i : i + 1;
+      if (dropTarget?.day !== day || dropTarget.index !== index)
+        setDropTarget({ day, index });
+    },
+    onDrop: (e) => {
+      e.preventDefault();
+      if (dropTarget) dropOn(dropTarget);
+    },
+    onDragEnd: () => {
+      dragFrom.current = null;
+      setDropTarget(null);
+    },
+  });
 
   // ...existing UI overlay code (tabs / single card) ...
   return (
@@ -1161,15 +1129,33 @@ const MapView: React.FC<MapViewProps> = ({
       <div className="flex-1 rounded-lg overflow-hidden shadow-lg h-full relative">
         <div ref={mapContainer} className="w-full h-full min-h-80" />
 
-        {/* Top-left overlay: removed "Tất cả" tab for journeys, only show day tabs */}
+        {overview && (
+          <OverviewLegend
+            days={tripDays.map((day) => {
+              const route = routeForDay(day);
+              return {
+                day,
+                color: dayColor(dayColorSlot(day)),
+                stops: daysGroup.get(day)?.length ?? 0,
+                route: route
+                  ? `${formatDistance(route.distance)} • ${formatDuration(route.duration)}`
+                  : undefined,
+              };
+            })}
+            onSelectDay={setSelectedDay}
+          />
+        )}
+
+        {/* Top-left overlay: a card for a single-place answer, otherwise the itinerary panel
+            ("Tất cả" plus one tab per day), kept even when edits leave one stop or none */}
         <div className="absolute top-4 left-4 z-50">
-          {points.length === 0 ? null : points.length === 1 ? (
+          {points.length === 0 && dayKeys.length === 0 ? null : placeCard ? (
             <div className="bg-white shadow-lg rounded-lg border p-3 w-64 max-w-xs">
               <div className="font-semibold text-sm">{points[0].name}</div>
               <div className="text-xs text-gray-500 mt-1">
                 {points[0].desc ?? ""}
               </div>
-              {points[0].source && (
+              {points[0].source && isWebUrl(points[0].source) && (
                 <div className="mt-2 text-xs">
                   <a
                     href={points[0].source}
@@ -1185,8 +1171,7 @@ const MapView: React.FC<MapViewProps> = ({
                 Ngày {points[0].day}
               </div>
               {(() => {
-                const b = dayBudgets.get(points[0].day);
-                const fb = formatBudget(b);
+                const fb = formatDayBudget(points[0].day);
                 return fb ? (
                   <div className="mt-2 text-sm font-medium text-gray-700">
                     Ngân sách: {fb}
@@ -1212,10 +1197,17 @@ const MapView: React.FC<MapViewProps> = ({
             // Multi-day UI...
             <div className="bg-[#eee3d7] border border-[#e5cbaf] shadow-xl rounded-lg w-72 max-w-xs">
               {/* ...header and day buttons... */}
-              <div className="p-2 border-b border-[#e5cbaf]">
+              <div className="p-2 border-b border-[#e5cbaf] flex items-center justify-between">
                 <div className="text-sm text-[#110a03] font-semibold">
                   Hành trình
                 </div>
+                <div className="flex items-center gap-1">
+                  <ExportMenu
+                    routes={exportRoutes}
+                    boundaryFor={boundaryFor}
+                  />
+                  <ShareButton />
+                </div>
               </div>
               <style>{`
                 .chat-scrollbar {
@@ -1231,6 +1223,20 @@ const MapView: React.FC<MapViewProps> = ({
               `}</style>
 
               <div className="p-2 flex flex-wrap gap-2">
+                {tripDays.length > 1 && (
+                  <button
+                    type="button"
+                    title="Xem mọi ngày trên bản đồ"
+                    className={`px-2 py-1 rounded text-xs cursor-pointer ${
+                      overview
+                        ? "bg-[#004d00] text-white"
+                        : "border border-[#e5cbaf] text-[#110a03]"
+                    }`}
+                    onClick={() => setSelectedDay("all")}
+                  >
+                    Tất cả
+                  </button>
+                )}
                 {dayKeys.map((d) => (
                   <button
                     key={d}
@@ -1240,11 +1246,38 @@ const MapView: React.FC<MapViewProps> = ({
                         : "border border-[#e5cbaf] text-[#110a03]"
                     }`}
                     onClick={() => setSelectedDay(d)}
+                    onDragOver={(e) => {
+                      if (!dragFrom.current || dragFrom.current.day === d)
+                        return;
+                      e.preventDefault();
+                      if (dropTarget?.day !== d || dropTarget.index !== -1)
+                        setDropTarget({ day: d, index: -1 });
+                    }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      dropOn({ day: d, index: -1 });
+                    }}
                   >
-                    <div className="leading-4 ">Ngày {d}</div>
+                    <div
+                      className={`leading-4 ${
+                        dropTarget?.day === d && dropTarget.index === -1
+                          ? "underline"
+                          : ""
+                      }`}
+                    >
+                      {daysGroup.has(d) && (
+                        <span
+                          className="inline-block w-2 h-2 mr-1 rounded-full border border-white"
+                          style={{ background: dayColor(dayColorSlot(d)) }}
+                        />
+                      )}
+                      Ngày {d}
+                    </div>
                     {(() => {
-                      const bb = dayBudgets.get(d);
-                      const fb2 = formatBudget(bb);
+                      const fb2 = formatDayBudget(d);
+                      const total = dayBudgets.get(d)?.total ?? 0;
+                      const conv = total > 0 ? formatConverted(total, budget.currency) : null;
                       return fb2 ? (
                         <div
                           className={`text-[10px] ${
@@ -1252,22 +1285,86 @@ const MapView: React.FC<MapViewProps> = ({
                           }`}
                         >
                           {fb2}
+                          {conv && (
+                            <div className="italic" title="Quy đổi theo tỷ giá tham khảo">
+                              {conv}
+                            </div>
+                          )}
+                        </div>
+                      ) : null;
+                    })()}
+                    {dayOverspend(d) > 0 && (
+                      <div
+                        className={`flex items-center gap-0.5 text-[10px] font-medium ${
+                          selectedDay === d ? "text-red-200" : "text-red-600"
+                        }`}
+                        title="Chi tiêu thực tế vượt ngân sách dự kiến"
+                      >
+                        <AlertTriangle size={10} /> Vượt{" "}
+                        {formatMoney(dayOverspend(d), budget.currency)}
+                      </div>
+                    )}
+                    {(() => {
+                      const route = routeForDay(d);
+                      return route ? (
+                        <div
+                          className={`text-[10px] ${
+                            selectedDay === d ? "text-white" : "text-gray-500"
+                          }`}
+                        >
+                          {formatDistance(route.distance)} •{" "}
+                          {formatDuration(route.duration)}
                         </div>
                       ) : null;
                     })()}
                   </button>
                 ))}
+                {!readOnly && (
+                  <button
+                    type="button"
+                    title="Thêm ngày"
+                    className="flex items-center gap-0.5 px-2 py-1 rounded text-xs cursor-pointer border border-dashed border-[#e5cbaf] text-gray-600 hover:bg-white/60"
+                    onClick={addDay}
+                  >
+                    <Plus size={12} /> Ngày
+                  </button>
+                )}
               </div>
 
+              <BudgetSummary />
+              {(() => {
+                const cur =
+                  selectedDay === "all" ? dayKeys[0] : (selectedDay as number);
+                return cur != null && !overview ? (
+                  <ExpensesPanel
+                    day={Number(cur)}
+                    estimate={dayBudgets.get(Number(cur))?.total ?? 0}
+                    currency={budget.currency}
+                  />
+                ) : null;
+              })()}
+
               <div className="p-2 max-h-40 overflow-auto text-xs chat-scrollbar">
                 {(() => {
+                  if (overview)
+                    return (
+                      <div className="text-gray-500">
+                        Chọn một ngày trong chú giải để xem chi tiết.
+                      </div>
+                    );
                   const cur =
                     selectedDay === "all"
                       ? dayKeys[0]
                       : (selectedDay as number);
                   const list = daysGroup.get(Number(cur)) ?? [];
-                  const selectedBudget = dayBudgets.get(Number(cur));
-                  const selectedBudgetText = formatBudget(selectedBudget);
+                  // leg k of the route starts at the k-th stop that has coordinates
+                  const legAfter = new Map<number, RouteLeg>();
+                  const route = routeForDay(Number(cur));
+                  dayCoords.get(Number(cur))?.stops.forEach((stopIdx, k) => {
+                    const leg = route?.legs[k];
+                    if (leg) legAfter.set(stopIdx, leg);
+                  });
+                  const selectedBudgetText = formatDayBudget(Number(cur));
                   return (
                     <ul className="space-y-2">
                       {selectedBudgetText ? (
@@ -1276,31 +1373,75 @@ const MapView: React.FC<MapViewProps> = ({
                         </li>
                       ) : null}
                       {list.map((p, i) => (
-                        <li
+                        <StopListItem
                           key={i}
-                          className="p-2 border border-[#e5cbaf] rounded cursor-pointer hover:bg-[#eee3d7]/50"
-                          onClick={() => {
-                            zoomToPlace(p, i);
+                          point={p}
+                          selected={
+                            selectedPlace?.day === p.day &&
+                            selectedPlace.index === i
+                          }
+                          editable={!readOnly}
+                          legToNext={legAfter.get(i)}
+                          dropEdge={
+                            dropTarget?.day !== p.day
+                              ? null
+                              : dropTarget.index === i
+                                ? "before"
+                                : dropTarget.index === i + 1 &&
+                                    i === list.length - 1
+                                  ? "after"
+                                  : null
+                          }
+                          onSelect={() => zoomToPlace(p, i)}
+                          onChange={(patch) =>
+                            editItinerary(
+                              updateStop(points, { day: p.day, index: i }, patch)
+                            )
+                          }
+                          onDelete={() =>
+                            editItinerary(
+                              removeStop(points, { day: p.day, index: i })
+                            )
+                          }
+                          loading={isStopLoading(p)}
+                          check={checkFor(p)}
+                          onUseVerified={() => {
+                            const c = checkFor(p);
+                            if (c?.status !== "mismatch") return;
+                            editItinerary(
+                              updateStop(
+                                points,
+                                { day: p.day, index: i },
+                                { lat: c.lat, lng: c.lng }
+                              )
+                            );
+                          }}
+                          onDismissCheck={() => dismissCheck(p)}
+                          dragProps={stopDragProps(p.day, i)}
+                        />
+                      ))}
+                      {list.length === 0 && (
+                        <li
+                          className={`p-3 border border-dashed rounded text-center text-gray-500 ${
+                            dropTarget?.day === Number(cur)
+                              ? "border-[#004d00]"
+                              : "border-[#e5cbaf]"
+                          }`}
+                          onDragOver={(e) => {
+                            if (!dragFrom.current) return;
+                            e.preventDefault();
+                            setDropTarget({ day: Number(cur), index: 0 });
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            dropOn({ day: Number(cur), index: 0 });
                           }}
                         >
-                          <div className="font-medium text-sm">{p.name}</div>
-                          <div className="text-gray-500 text-xs">
-                            {p.desc ?? ""}
-                          </div>
-                          {p.source && (
-                            <div className="mt-1">
-                              <a
-                                href={p.source}
-                                target="_blank"
-                                rel="noreferrer"
-                                className="text-[#004d00] underline text-xs"
-                              >
-                                Nguồn
-                              </a>
-                            </div>
-                          )}
+                          {readOnly
+                            ? "Chưa có điểm đến."
+                            : "Kéo điểm đến từ ngày khác vào đây."}
                         </li>
-                      ))}
+                      )}
                     </ul>
                   );
                 })()}
@@ -1325,6 +1466,20 @@ const MapView: React.FC<MapViewProps> = ({
                 </button>
               </div>
               <div className="mt-2">
+                {(() => {
+                  const sel = selectedPlace
+                    ? daysGroup.get(selectedPlace.day)?.[selectedPlace.index]
+                    : undefined;
+                  return sel && sel.name === imageCard.placeName ? (
+                    <PlaceCandidates
+                      point={sel}
+                      editable={!readOnly}
+                      onChoose={(coords) =>
+                        editItinerary(updateStop(points, selectedPlace!, coords))
+                      }
+                    />
+                  ) : null;
+                })()}
                 {/* Weather block */}
                 {imageCard.weatherLoading ? (
                   <div className="text-gray-500">Đang tải thời tiết...</div>
@@ -1332,7 +1487,7 @@ const MapView: React.FC<MapViewProps> = ({
                   <div className="flex items-center gap-3 mb-2">
                     {imageCard.weather.icon ? (
                       <img
-                        src={`https://openweathermap.org/img/wn/${imageCard.weather.icon}@2x.png`}
+                        src={weatherIconUrl(imageCard.weather.icon)}
                         alt={imageCard.weather.description}
                         className="w-10 h-10"
                       />
@@ -1395,15 +1550,6 @@ const MapView: React.FC<MapViewProps> = ({
           </div>
         )}
 
-        {/* Blocking loading overlay shown while fetching boundaries or when the map is moving */}
-        {mapLoading && (
-          <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 pointer-events-none user-select-none">
-            <div className="flex flex-col items-center pointer-events-none p-4 rounded">
-              <div className="w-10 h-10 border-4 border-gray-200 border-t-blue-500 rounded-full animate-spin" />
-              <div className="mt-2 text-sm text-white">Đang tải bản đồ...</div>
-            </div>
-          </div>
-        )}
       </div>
     </div>
   );
@@ -0,0 +1,48 @@
+import { ChevronRight } from "lucide-react";
+
+export interface LegendDay {
+  day: number;
+  color: string;
+  stops: number;
+  // "120 km • 2 giờ" when the day's road route is known
+  route?: string;
+}
+
+interface OverviewLegendProps {
+  days: LegendDay[];
+  onSelectDay: (day: number) => void;
+}
+
+// key for the all-days map: one color per day, click a day to drill into it
+const OverviewLegend: React.FC<OverviewLegendProps> = ({ days, onSelectDay }) => (
+  <div className="absolute bottom-8 left-4 z-40 w-56 bg-[#eee3d7] border border-[#e5cbaf] shadow-xl rounded-lg p-2 text-xs">
+    <div className="mb-1 font-semibold text-[#110a03]">Chú giải</div>
+    <ul className="space-y-0.5 max-h-60 overflow-auto chat-scrollbar">
+      {days.map((d) => (
+        <li key={d.day}>
+          <button
+            type="button"
+            title={`Xem ngày ${d.day}`}
+            className="w-full flex items-center gap-2 px-1 py-0.5 rounded text-left hover:bg-white/60 cursor-pointer"
+            onClick={() => onSelectDay(d.day)}
+          >
+            <span
+              className="w-3 h-3 rounded-full border-2 border-white shadow shrink-0"
+              style={{ background: d.color }}
+            />
+            <span className="flex-1 min-w-0">
+              <span className="font-medium">Ngày {d.day}</span>
+              <span className="text-gray-500"> · {d.stops} điểm</span>
+              {d.route && (
+                <span className="block truncate text-[10px] text-gray-500">{d.route}</span>
+              )}
+            </span>
+            <ChevronRight size={12} className="shrink-0 text-gray-400" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default OverviewLegend;
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { MapPin } from "lucide-react";
+import { normalizeCoords, type MapPoint } from "../../itinerary";
+import { candidatesFarApart, DISTINCT_PLACE_M, findCandidates } from "../../services/boundary";
+import {
+  resultCoords,
+  resultRegion,
+  type NominatimResult,
+} from "../../services/nominatim";
+import { distanceMeters } from "../../utils/geo";
+
+const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN as string;
+
+// small static map centered on a candidate
+const previewUrl = (lat: number, lng: number) =>
+  `https://api.mapbox.com/styles/v1/mapbox/streets-v12/static/pin-s+004d00(${lng},${lat})/${lng},${lat},9/120x72@2x?access_token=${MAPBOX_TOKEN}`;
+
+type Candidate = {
+  key: string;
+  lat: number;
+  lng: number;
+  name: string;
+  region?: string;
+  label: string;
+};
+
+const toCandidates = (results: NominatimResult[]): Candidate[] => {
+  const out: Candidate[] = [];
+  for (const r of results) {
+    const c = resultCoords(r);
+    if (!c) continue;
+    // hits within one place (a temple and its grounds) collapse into the first
+    if (out.some((o) => distanceMeters([o.lng, o.lat], [c.lng, c.lat]) <= DISTINCT_PLACE_M))
+      continue;
+    out.push({
+      key: `${r.osm_type ?? ""}${r.osm_id ?? out.length}`,
+      ...c,
+      name: r.name || (r.display_name ?? "").split(",")[0],
+      region: resultRegion(r),
+      label: r.display_name ?? "",
+    });
+  }
+  return out;
+};
+
+interface PlaceCandidatesProps {
+  point: MapPoint;
+  editable: boolean;
+  onChoose: (coords: { lat: number; lng: number }) => void;
+}
+
+// "which Chùa Cầu?": when the geocoder knows several far-apart places with the stop's name,
+// list them with their province and a mini map so the right one can be picked
+const PlaceCandidates: React.FC<PlaceCandidatesProps> = ({ point, editable, onChoose }) => {
+  const [found, setFound] = useState<{ name: string; list: Candidate[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    findCandidates(point.name)
+      .then((results) => {
+        if (cancelled) return;
+        setFound({
+          name: point.name,
+          list: candidatesFarApart(results) ? toCandidates(results) : [],
+        });
+      })
+      .catch(() => {
+        // no picker without the geocoder
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [point.name]);
+
+  const list = found?.name === point.name ? found.list : [];
+  if (list.length < 2) return null;
+
+  const { lat, lng } = normalizeCoords(point.lat, point.lng);
+  const current = list.reduce((a, b) =>
+    distanceMeters([lng, lat], [b.lng, b.lat]) < distanceMeters([lng, lat], [a.lng, a.lat])
+      ? b
+      : a
+  );
+
+  return (
+    <div className="mb-2 p-2 rounded border border-amber-300 bg-amber-50">
+      <div className="mb-1 font-medium text-amber-800">
+        Có {list.length} nơi tên "{point.name}". {editable ? "Chọn đúng nơi:" : ""}
+      </div>
+      <ul className="grid grid-cols-2 gap-1.5">
+        {list.map((c) => {
+          const selected = c.key === current.key;
+          return (
+            <li key={c.key}>
+              <button
+                type="button"
+                disabled={!editable || selected}
+                title={c.label}
+                onClick={() => onChoose({ lat: c.lat, lng: c.lng })}
+                className={`w-full text-left rounded overflow-hidden border bg-white cursor-pointer disabled:cursor-default ${
+                  selected ? "border-[#004d00] ring-1 ring-[#004d00]" : "border-[#e5cbaf] hover:border-[#004d00]"
+                }`}
+              >
+                <img
+                  src={previewUrl(c.lat, c.lng)}
+                  alt={c.label}
+                  loading="lazy"
+                  className="w-full h-14 object-cover"
+                />
+                <div className="px-1 py-0.5">
+                  <div className="truncate text-[11px] font-medium">{c.name}</div>
+                  <div className="flex items-center gap-0.5 truncate text-[10px] text-gray-500">
+                    <MapPin size={9} className="shrink-0" />
+                    {c.region ?? "—"}
+                    {selected && <span className="ml-auto text-[#004d00]">đang dùng</span>}
+                  </div>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PlaceCandidates;
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Check, Share2 } from "lucide-react";
+import { useTrip } from "../../context/trip-context";
+import { createShareLink } from "../../services/share";
+
+// "Chia sẻ": publishes a read-only snapshot and copies its /trip link
+const ShareButton = () => {
+  const { title, itinerary, itineraryKind, travelers } = useTrip();
+  const [busy, setBusy] = useState(false);
+  const [link, setLink] = useState<{ url: string; copied: boolean } | null>(
+    null
+  );
+
+  const share = async () => {
+    setBusy(true);
+    try {
+      const { url } = await createShareLink({
+        title,
+        itinerary,
+        kind: itineraryKind,
+        travelers,
+      });
+      let copied = false;
+      try {
+        await navigator.clipboard.writeText(url);
+        copied = true;
+      } catch {
+        // clipboard blocked: the link stays visible to copy by hand
+      }
+      setLink({ url, copied });
+    } catch (e) {
+      console.warn("Creating share link failed", e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={share}
+        disabled={busy || itinerary.length === 0}
+        className="flex items-center gap-1 text-xs px-2 py-1 rounded-full border border-[#e5cbaf] text-[#110a03] hover:bg-white/60 cursor-pointer disabled:opacity-50"
+      >
+        <Share2 size={12} /> {busy ? "Đang tạo..." : "Chia sẻ"}
+      </button>
+      {link && (
+        <div className="absolute right-0 top-8 z-10 w-64 bg-white border border-[#e5cbaf] rounded shadow-lg p-2 text-xs">
+          <div className="flex items-center justify-between mb-1 text-gray-600">
+            <span className="flex items-center gap-1">
+              {link.copied && <Check size={12} className="text-[#004d00]" />}
+              {link.copied ? "Đã sao chép liên kết" : "Liên kết chia sẻ"}
+            </span>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-700 cursor-pointer"
+              onClick={() => setLink(null)}
+            >
+              Đóng
+            </button>
+          </div>
+          <input
+            readOnly
+            value={link.url}
+            onFocus={(e) => e.currentTarget.select()}
+            className="w-full border rounded px-1 py-0.5 text-[11px]"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareButton;
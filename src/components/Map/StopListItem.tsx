@@ -0,0 +1,270 @@
+import { useState } from "react";
+import {
+  AlertTriangle,
+  Car,
+  Check,
+  GripVertical,
+  Loader2,
+  Pencil,
+  Trash2,
+  X,
+} from "lucide-react";
+import { formatBudgetLines, type MapPoint } from "../../itinerary";
+import {
+  formatDistance,
+  formatDuration,
+  type RouteLeg,
+} from "../../services/routing";
+import type { PlaceCheck } from "../../services/geocode";
+import { isWebUrl } from "../../utils/text";
+
+interface StopListItemProps {
+  point: MapPoint;
+  selected: boolean;
+  editable: boolean;
+  // road distance/time to the next stop of the day
+  legToNext?: RouteLeg;
+  // where a dragged stop would land relative to this one
+  dropEdge: "before" | "after" | null;
+  // outline still being looked up
+  loading?: boolean;
+  // geocoder cross-check of the coordinates
+  check?: PlaceCheck;
+  onSelect: () => void;
+  onChange: (patch: { name: string; desc?: string; time?: string }) => void;
+  onDelete: () => void;
+  onUseVerified: () => void;
+  onDismissCheck: () => void;
+  dragProps: React.HTMLAttributes<HTMLLIElement>;
+}
+
+// one stop in the day panel: click to zoom, drag to reorder, pencil to edit inline
+const StopListItem: React.FC<StopListItemProps> = ({
+  point,
+  selected,
+  editable,
+  legToNext,
+  dropEdge,
+  loading,
+  check,
+  onSelect,
+  onChange,
+  onDelete,
+  onUseVerified,
+  onDismissCheck,
+  dragProps,
+}) => {
+  const [draft, setDraft] = useState<{
+    name: string;
+    desc: string;
+    time: string;
+  } | null>(null);
+
+  const commit = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (name) {
+      onChange({
+        name,
+        desc: draft.desc.trim() || undefined,
+        time: draft.time || undefined,
+      });
+    }
+    setDraft(null);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      setDraft(null);
+    }
+  };
+
+  if (draft) {
+    return (
+      <li className="p-2 border rounded border-[#004d00] bg-white/80 space-y-1">
+        <input
+          autoFocus
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          onKeyDown={onKeyDown}
+          placeholder="Tên điểm đến"
+          className="w-full border border-[#e5cbaf] rounded px-1 py-0.5 text-sm font-medium"
+        />
+        <input
+          type="time"
+          value={draft.time}
+          onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+          onKeyDown={onKeyDown}
+          title="Giờ dự kiến"
+          className="border border-[#e5cbaf] rounded px-1 py-0.5 text-xs"
+        />
+        <textarea
+          value={draft.desc}
+          onChange={(e) => setDraft({ ...draft, desc: e.target.value })}
+          onKeyDown={onKeyDown}
+          placeholder="Mô tả"
+          rows={2}
+          className="w-full border border-[#e5cbaf] rounded px-1 py-0.5 text-xs resize-none"
+        />
+        <div className="flex justify-end gap-1">
+          <button
+            type="button"
+            title="Hủy"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100 cursor-pointer"
+            onClick={() => setDraft(null)}
+          >
+            <X size={12} />
+          </button>
+          <button
+            type="button"
+            title="Lưu"
+            className="p-1 rounded text-white bg-[#004d00] hover:bg-[#004d00]/80 cursor-pointer"
+            onClick={commit}
+          >
+            <Check size={12} />
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li
+      {...dragProps}
+      draggable={editable}
+      className={`group relative p-2 border rounded cursor-pointer hover:bg-[#eee3d7]/50 ${
+        selected ? "border-[#004d00] bg-white/60" : "border-[#e5cbaf]"
+      }`}
+      onClick={onSelect}
+    >
+      {dropEdge && (
+        <div
+          className={`absolute left-0 right-0 h-0.5 bg-[#004d00] ${
+            dropEdge === "before" ? "-top-1.5" : "-bottom-1.5"
+          }`}
+        />
+      )}
+      <div className="flex items-start gap-1">
+        {editable && (
+          <GripVertical
+            size={14}
+            className="mt-0.5 shrink-0 text-gray-400 cursor-grab"
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-sm">
+            {point.time && (
+              <span className="mr-1 text-[11px] font-normal text-[#004d00]">
+                {point.time}
+              </span>
+            )}
+            {point.name}
+            {loading && (
+              <span title="Đang tải ranh giới">
+                <Loader2
+                  size={11}
+                  className="inline ml-1 align-[-1px] text-gray-400 animate-spin"
+                />
+              </span>
+            )}
+          </div>
+          <div className="text-gray-500 text-xs">{point.desc ?? ""}</div>
+          {point.budget && (
+            <div className="mt-0.5 text-[11px] text-gray-600">
+              {formatBudgetLines(point.budget)}
+            </div>
+          )}
+          {point.source && isWebUrl(point.source) && (
+            <div className="mt-1">
+              <a
+                href={point.source}
+                target="_blank"
+                rel="noreferrer"
+                className="text-[#004d00] underline text-xs"
+                onClick={(e) => e.stopPropagation()}
+              >
+                Nguồn
+              </a>
+            </div>
+          )}
+          {check?.status === "mismatch" && (
+            <div
+              className="mt-1 p-1 rounded border border-amber-300 bg-amber-50 text-[11px] text-amber-800"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-start gap-1">
+                <AlertTriangle size={11} className="mt-0.5 shrink-0" />
+                <span>
+                  Vị trí có thể sai: cách kết quả bản đồ {formatDistance(check.distance)}
+                  <span className="block text-gray-500 truncate" title={check.label}>
+                    {check.label}
+                  </span>
+                </span>
+              </div>
+              {editable && (
+                <div className="mt-1 flex gap-1">
+                  <button
+                    type="button"
+                    className="px-1.5 py-0.5 rounded bg-[#004d00] text-white cursor-pointer"
+                    onClick={onUseVerified}
+                  >
+                    Dùng vị trí đã xác minh
+                  </button>
+                  <button
+                    type="button"
+                    className="px-1.5 py-0.5 rounded border border-amber-300 cursor-pointer"
+                    onClick={onDismissCheck}
+                  >
+                    Giữ nguyên
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          {legToNext && (
+            <div className="mt-1 flex items-center gap-1 text-[11px] text-[#004d00]">
+              <Car size={11} />
+              {formatDistance(legToNext.distance)} •{" "}
+              {formatDuration(legToNext.duration)} đến điểm tiếp theo
+            </div>
+          )}
+        </div>
+        {editable && (
+          <div className="flex gap-0.5 opacity-0 group-hover:opacity-100">
+            <button
+              type="button"
+              title="Sửa"
+              className="p-1 rounded text-gray-500 hover:bg-white cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                setDraft({
+                  name: point.name,
+                  desc: point.desc ?? "",
+                  time: point.time ?? "",
+                });
+              }}
+            >
+              <Pencil size={12} />
+            </button>
+            <button
+              type="button"
+              title="Xóa điểm này"
+              className="p-1 rounded text-red-500 hover:bg-white cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default StopListItem;
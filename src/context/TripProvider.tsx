@@ -0,0 +1,126 @@
+import { useCallback, useState } from "react";
+import type { Expense } from "../expenses";
+import type { Itinerary, MapPoint } from "../itinerary";
+import type { Msg } from "../services/journey";
+import { useJourneyChat } from "../hooks/useJourneyChat";
+import { useTripAutosave } from "../hooks/useTripAutosave";
+import { deriveTripTitle, type SavedTrip } from "../services/trips";
+import {
+  defaultSelectedDay,
+  legacyKind,
+  TripContext,
+  type PlaceRef,
+  type TripState,
+} from "./trip-context";
+
+interface TripProviderProps {
+  initialMessages?: Msg[];
+  initialItinerary?: MapPoint[];
+  // omitted for records that predate it
+  initialKind?: Itinerary["kind"];
+  initialTravelers?: number;
+  initialExpenses?: Expense[];
+  initialMembers?: string[];
+  // saved trip this state belongs to; null starts a new one on the first change
+  tripId?: string | null;
+  title?: string;
+  // set to false for views that must not write to the saved-trips library
+  persist?: boolean;
+  readOnly?: boolean;
+  onTripSaved?: (trip: SavedTrip) => void;
+  children: React.ReactNode;
+}
+
+// one store for the conversation, the itinerary and what is selected on the map,
+// shared by every ChatBox/MapView under it
+const TripProvider: React.FC<TripProviderProps> = ({
+  initialMessages = [],
+  initialItinerary = [],
+  initialKind,
+  initialTravelers = 1,
+  initialExpenses = [],
+  initialMembers = [],
+  tripId = null,
+  title,
+  persist = true,
+  readOnly = false,
+  onTripSaved,
+  children,
+}) => {
+  const [messages, setMessages] = useState<Msg[]>(initialMessages);
+  const [itinerary, setItinerary] = useState<MapPoint[]>(initialItinerary);
+  const [itineraryKind, setItineraryKind] = useState<Itinerary["kind"]>(
+    () => initialKind ?? legacyKind(initialItinerary)
+  );
+  const [selectedDay, setSelectedDayState] = useState<number | "all">(() =>
+    defaultSelectedDay(initialItinerary, initialKind ?? legacyKind(initialItinerary))
+  );
+  const [selectedPlace, setSelectedPlace] = useState<PlaceRef | null>(null);
+  const [travelers, setTravelersState] = useState(initialTravelers);
+  const [expenses, setExpenses] = useState<Expense[]>(initialExpenses);
+  const [members, setMembers] = useState<string[]>(initialMembers);
+
+  const setTravelers = useCallback((n: number) => {
+    setTravelersState(Math.max(1, Math.floor(n) || 1));
+  }, []);
+
+  const setSelectedDay = useCallback((day: number | "all") => {
+    setSelectedDayState(day);
+    setSelectedPlace(null);
+  }, []);
+
+  const replaceItinerary = useCallback(
+    (points: MapPoint[], kind: Itinerary["kind"] = "itinerary") => {
+      setItinerary(points);
+      setItineraryKind(kind);
+      setSelectedDayState(defaultSelectedDay(points, kind));
+      setSelectedPlace(null);
+    },
+    []
+  );
+
+  const chat = useJourneyChat({
+    messages,
+    setMessages,
+    itinerary,
+    onItinerary: replaceItinerary,
+  });
+
+  useTripAutosave({
+    enabled: persist,
+    tripId,
+    messages,
+    itinerary,
+    itineraryKind,
+    travelers,
+    expenses,
+    members,
+    onSaved: onTripSaved,
+  });
+
+  const value: TripState = {
+    title: title || deriveTripTitle(messages),
+    readOnly,
+    messages,
+    setMessages,
+    itinerary,
+    setItinerary,
+    itineraryKind,
+    replaceItinerary,
+    travelers,
+    setTravelers,
+    expenses,
+    setExpenses,
+    members,
+    setMembers,
+    selectedDay,
+    setSelectedDay,
+    selectedPlace,
+    setSelectedPlace,
+    chat,
+  };
+
+  return <TripContext.Provider value={value}>{children}</TripContext.Provider>;
+};
+
+export default TripProvider;
@@ -0,0 +1,61 @@
+import { createContext, useContext } from "react";
+import type { Expense } from "../expenses";
+import type { Itinerary, MapPoint, StopRef } from "../itinerary";
+import type { Msg } from "../services/journey";
+
+// a stop is identified by its day and its position within that day
+export type PlaceRef = StopRef;
+
+export type TripState = {
+  // saved/shared title, else derived from the first question
+  title: string;
+  // shared views: no chat and no itinerary editing
+  readOnly: boolean;
+  messages: Msg[];
+  setMessages: React.Dispatch<React.SetStateAction<Msg[]>>;
+  itinerary: MapPoint[];
+  // edit in place (keeps the current day/place selection)
+  setItinerary: React.Dispatch<React.SetStateAction<MapPoint[]>>;
+  // "place" for a single-location answer, shown as a card; editing never changes it
+  itineraryKind: Itinerary["kind"];
+  // load a whole new itinerary and reset the selection to its first day
+  replaceItinerary: (points: MapPoint[], kind?: Itinerary["kind"]) => void;
+  // group size for per-person budget lines (at least 1)
+  travelers: number;
+  setTravelers: (n: number) => void;
+  // what was actually spent, split equally between members
+  expenses: Expense[];
+  setExpenses: React.Dispatch<React.SetStateAction<Expense[]>>;
+  members: string[];
+  setMembers: React.Dispatch<React.SetStateAction<string[]>>;
+  selectedDay: number | "all";
+  setSelectedDay: (day: number | "all") => void;
+  selectedPlace: PlaceRef | null;
+  setSelectedPlace: (place: PlaceRef | null) => void;
+  chat: {
+    loading: boolean;
+    error: string | null;
+    streamText: string;
+    repairing: string[] | null;
+    send: (text: string) => Promise<void>;
+    stop: () => void;
+  };
+};
+
+export const TripContext = createContext<TripState | null>(null);
+
+export const useTrip = (): TripState => {
+  const ctx = useContext(TripContext);
+  if (!ctx) throw new Error("useTrip must be used inside <TripProvider>");
+  return ctx;
+};
+
+// trips saved or shared before the kind was kept: a lone stop was a place answer
+export const legacyKind = (points: MapPoint[]): Itinerary["kind"] =>
+  points.length === 1 ? "place" : "itinerary";
+
+// single places show as "all"; itineraries open on their first day
+export const defaultSelectedDay = (
+  points: MapPoint[],
+  kind: Itinerary["kind"]
+): number | "all" => (kind === "itinerary" && points.length > 0 ? points[0].day : "all");
@@ -0,0 +1,2 @@
+export type { Expense, Settlement } from "./types";
+export { newExpenseId, settleUp, spentByDay, splitMembers } from "./ledger";
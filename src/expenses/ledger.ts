@@ -0,0 +1,66 @@
+import type { Expense, Settlement } from "./types";
+
+type Convert = (amount: number, from: string, to: string) => number | null;
+
+const inCurrency = (e: Expense, currency: string, convert?: Convert) =>
+  e.currency === currency ? e.amount : (convert?.(e.amount, e.currency, currency) ?? 0);
+
+export const newExpenseId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// spent per day in one currency (expenses without a rate count as 0)
+export const spentByDay = (
+  expenses: Expense[],
+  currency: string,
+  convert?: Convert
+): Map<number, number> => {
+  const m = new Map<number, number>();
+  for (const e of expenses) {
+    m.set(e.day, (m.get(e.day) ?? 0) + inCurrency(e, currency, convert));
+  }
+  return m;
+};
+
+// everyone in the split: the named members plus anyone who paid without being listed
+export const splitMembers = (members: string[], expenses: Expense[]) =>
+  Array.from(new Set([...members, ...expenses.map((e) => e.payer)].filter(Boolean)));
+
+// equal split of every expense among all members, then the fewest transfers that settle it:
+// the largest debtor pays the largest creditor until everyone is square
+export const settleUp = (
+  expenses: Expense[],
+  members: string[],
+  currency: string,
+  convert?: Convert
+): Settlement[] => {
+  const people = splitMembers(members, expenses);
+  if (people.length < 2) return [];
+  const balance = new Map(people.map((p) => [p, 0]));
+  for (const e of expenses) {
+    const amount = inCurrency(e, currency, convert);
+    const share = amount / people.length;
+    balance.set(e.payer, (balance.get(e.payer) ?? 0) + amount);
+    people.forEach((p) => balance.set(p, balance.get(p)! - share));
+  }
+
+  // amounts below one unit are rounding noise
+  const EPSILON = 0.5;
+  const debtors = [...balance].filter(([, b]) => b < -EPSILON).map(([p, b]) => ({ p, b: -b }));
+  const creditors = [...balance].filter(([, b]) => b > EPSILON).map(([p, b]) => ({ p, b }));
+  const out: Settlement[] = [];
+  while (debtors.length && creditors.length) {
+    debtors.sort((a, b) => b.b - a.b);
+    creditors.sort((a, b) => b.b - a.b);
+    const d = debtors[0];
+    const c = creditors[0];
+    const amount = Math.min(d.b, c.b);
+    out.push({ from: d.p, to: c.p, amount });
+    d.b -= amount;
+    c.b -= amount;
+    if (d.b <= EPSILON) debtors.shift();
+    if (c.b <= EPSILON) creditors.shift();
+  }
+  return out;
+};
@@ -0,0 +1,17 @@
+import type { BudgetCategory } from "../itinerary";
+
+// money actually spent during the trip, logged against an itinerary day
+export type Expense = {
+  id: string;
+  day: number;
+  amount: number;
+  currency: string;
+  category: BudgetCategory;
+  note?: string;
+  // member who paid; the cost is shared equally by all members
+  payer: string;
+  createdAt: number;
+};
+
+// "a owes b amount" in the summary currency
+export type Settlement = { from: string; to: string; amount: number };
@@ -0,0 +1,26 @@
+import { hasCoords, normalizeCoords, type MapPoint } from "../itinerary";
+import type { ExportStop } from "./types";
+
+export const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// stops grouped by day (ascending), numbered within their day; stops without
+// coordinates keep their number but are left out since no format can place them
+export const stopsByDay = (points: MapPoint[]): Map<number, ExportStop[]> => {
+  const days = new Map<number, ExportStop[]>();
+  const counters = new Map<number, number>();
+  for (const p of points) {
+    const index = counters.get(p.day) ?? 0;
+    counters.set(p.day, index + 1);
+    const { lat, lng } = normalizeCoords(p.lat, p.lng);
+    if (!days.has(p.day)) days.set(p.day, []);
+    if (!hasCoords(lat, lng)) continue;
+    days.get(p.day)!.push({ ...p, lat, lng, index });
+  }
+  return new Map([...days].sort(([a], [b]) => a - b));
+};
@@ -0,0 +1,53 @@
+import { stopsByDay } from "./common";
+import type { ExportInput } from "./types";
+
+// FeatureCollection: a Point per stop, plus each drawn boundary and day route;
+// `kind` tells them apart, `day`/`index` tie boundaries back to their stop
+export const toGeoJson = ({
+  title,
+  points,
+  routes,
+  boundaryFor,
+}: ExportInput): string => {
+  const features: GeoJSON.Feature[] = [];
+  for (const [day, stops] of stopsByDay(points)) {
+    for (const s of stops) {
+      const properties = {
+        day,
+        index: s.index,
+        name: s.name,
+        desc: s.desc ?? null,
+        source: s.source ?? null,
+        budget: s.budget ?? null,
+        dayBudget: s.dayBudget ?? null,
+      };
+      features.push({
+        type: "Feature",
+        properties: { kind: "stop", ...properties },
+        geometry: { type: "Point", coordinates: [s.lng, s.lat] },
+      });
+      const boundary = boundaryFor?.(day, s.index);
+      if (boundary) {
+        features.push({
+          type: "Feature",
+          properties: { kind: "boundary", day, index: s.index, name: s.name },
+          geometry: boundary,
+        });
+      }
+    }
+    const route = routes?.get(day);
+    if (route) {
+      features.push({
+        type: "Feature",
+        properties: { kind: "route", day },
+        geometry: route,
+      });
+    }
+  }
+  const fc: GeoJSON.FeatureCollection & { name: string } = {
+    type: "FeatureCollection",
+    name: title,
+    features,
+  };
+  return JSON.stringify(fc, null, 2);
+};
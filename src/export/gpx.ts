@@ -0,0 +1,46 @@
+import { escapeXml, stopsByDay } from "./common";
+import type { ExportInput } from "./types";
+
+// GPX 1.1: one waypoint per stop; withRoutes adds a track per day (the road
+// route when known, otherwise straight lines between the stops)
+export const toGpx = (
+  { title, points, routes }: ExportInput,
+  { withRoutes = false }: { withRoutes?: boolean } = {}
+): string => {
+  const days = stopsByDay(points);
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="vietnam-journey-bot" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(title)}</name></metadata>`,
+  ];
+
+  for (const [day, stops] of days) {
+    for (const s of stops) {
+      lines.push(`  <wpt lat="${s.lat}" lon="${s.lng}">`);
+      lines.push(`    <name>${escapeXml(s.name)}</name>`);
+      if (s.desc) lines.push(`    <desc>${escapeXml(s.desc)}</desc>`);
+      if (s.source) lines.push(`    <link href="${escapeXml(s.source)}"><text>Nguồn</text></link>`);
+      lines.push(`    <type>Ngày ${day}</type>`);
+      lines.push(`  </wpt>`);
+    }
+  }
+
+  if (withRoutes) {
+    for (const [day, stops] of days) {
+      const coords =
+        routes?.get(day)?.coordinates ?? stops.map((s) => [s.lng, s.lat]);
+      if (coords.length < 2) continue;
+      lines.push(`  <trk>`);
+      lines.push(`    <name>Ngày ${day}</name>`);
+      lines.push(`    <trkseg>`);
+      for (const [lng, lat] of coords) {
+        lines.push(`      <trkpt lat="${lat}" lon="${lng}"></trkpt>`);
+      }
+      lines.push(`    </trkseg>`);
+      lines.push(`  </trk>`);
+    }
+  }
+
+  lines.push(`</gpx>`, "");
+  return lines.join("\n");
+};
@@ -0,0 +1,135 @@
+import { slugify } from "../utils/text";
+import { stopsByDay } from "./common";
+import type { ExportInput, ExportStop } from "./types";
+
+// Vietnam has no DST: local times convert to UTC with a fixed offset
+const VIETNAM_UTC_OFFSET_HOURS = 7;
+// a timed stop without a following timed stop gets this long
+const DEFAULT_STOP_MINUTES = 60;
+
+const escapeText = (s: string) =>
+  s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+// RFC 5545 3.1: lines longer than 75 octets continue on the next line after a space
+const fold = (line: string) => {
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (bytes + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const dateValue = (d: Date) =>
+  `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`;
+
+const utcValue = (d: Date) =>
+  `${dateValue(d)}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+// calendar date of an itinerary day; dates are kept at UTC midnight
+const dayDate = (start: Date, day: number) =>
+  new Date(start.getTime() + (day - 1) * 86_400_000);
+
+const atLocalTime = (date: Date, time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      h - VIETNAM_UTC_OFFSET_HOURS,
+      m
+    )
+  );
+};
+
+const stopText = (s: ExportStop) =>
+  [
+    `${s.index + 1}. ${s.name}${s.time ? ` (${s.time})` : ""}`,
+    s.desc,
+    s.source,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+// iCalendar: an all-day VEVENT per itinerary day, plus a timed VEVENT for
+// every stop that has a time. `startDate` ("YYYY-MM-DD") is day 1.
+export const toIcs = (
+  { title, points }: ExportInput,
+  { startDate, now = new Date() }: { startDate: string; now?: Date }
+): string => {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  if (Number.isNaN(start.getTime())) throw new Error("Invalid start date");
+  const uidBase = `${slugify(title) || "trip"}-${dateValue(start)}`;
+  const stamp = utcValue(now);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//vietnam-journey-bot//itinerary//VI",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(title)}`,
+  ];
+
+  const event = (props: string[]) =>
+    lines.push("BEGIN:VEVENT", `DTSTAMP:${stamp}`, ...props, "END:VEVENT");
+
+  for (const [day, stops] of stopsByDay(points)) {
+    if (stops.length === 0) continue;
+    const date = dayDate(start, day);
+    const first = stops[0];
+    event([
+      `UID:${uidBase}-d${day}@vietnam-journey-bot`,
+      `DTSTART;VALUE=DATE:${dateValue(date)}`,
+      `DTEND;VALUE=DATE:${dateValue(dayDate(start, day + 1))}`,
+      `SUMMARY:${escapeText(`${title} — Ngày ${day}`)}`,
+      `LOCATION:${escapeText(stops.map((s) => s.name).join(" → "))}`,
+      `GEO:${first.lat};${first.lng}`,
+      `DESCRIPTION:${escapeText(stops.map(stopText).join("\n\n"))}`,
+      ...(first.source ? [`URL:${first.source}`] : []),
+    ]);
+
+    const timed = stops.filter((s) => s.time);
+    timed.forEach((s, i) => {
+      const from = atLocalTime(date, s.time!);
+      const next = timed[i + 1] && atLocalTime(date, timed[i + 1].time!);
+      const to =
+        next && next > from
+          ? next
+          : new Date(from.getTime() + DEFAULT_STOP_MINUTES * 60_000);
+      event([
+        `UID:${uidBase}-d${day}-s${s.index}@vietnam-journey-bot`,
+        `DTSTART:${utcValue(from)}`,
+        `DTEND:${utcValue(to)}`,
+        `SUMMARY:${escapeText(s.name)}`,
+        `LOCATION:${escapeText(s.name)}`,
+        `GEO:${s.lat};${s.lng}`,
+        ...(s.desc || s.source
+          ? [`DESCRIPTION:${escapeText([s.desc, s.source].filter(Boolean).join("\n"))}`]
+          : []),
+        ...(s.source ? [`URL:${s.source}`] : []),
+      ]);
+    });
+  }
+
+  lines.push("END:VCALENDAR", "");
+  return lines.map(fold).join("\r\n");
+};
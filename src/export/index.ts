@@ -0,0 +1,5 @@
+export type { ExportInput } from "./types";
+export { toGeoJson } from "./geojson";
+export { toGpx } from "./gpx";
+export { toIcs } from "./ics";
+export { toKml } from "./kml";
@@ -0,0 +1,58 @@
+import { formatBudgetLines } from "../itinerary";
+import { escapeXml, stopsByDay } from "./common";
+import type { ExportInput, ExportStop } from "./types";
+
+const description = (s: ExportStop) => {
+  const parts: string[] = [];
+  if (s.desc) parts.push(escapeXml(s.desc));
+  const budget = formatBudgetLines(s.budget);
+  if (budget) parts.push(`Ngân sách: ${escapeXml(budget)}`);
+  if (s.source) {
+    const href = escapeXml(s.source);
+    parts.push(`<a href="${href}">Nguồn đọc thêm</a>`);
+  }
+  // KML renders description HTML; CDATA keeps the link markup intact
+  return parts.length
+    ? `<description><![CDATA[${parts.join("<br/>")}]]></description>`
+    : "";
+};
+
+// KML 2.2 (Google My Maps, Google Earth): a folder per day with its stops and route
+export const toKml = ({ title, points, routes }: ExportInput): string => {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `<Document>`,
+    `  <name>${escapeXml(title)}</name>`,
+  ];
+
+  for (const [day, stops] of stopsByDay(points)) {
+    lines.push(`  <Folder>`);
+    lines.push(`    <name>Ngày ${day}</name>`);
+    const dayBudget = formatBudgetLines(stops[0]?.dayBudget);
+    if (dayBudget) {
+      lines.push(`    <description>${escapeXml(`Ngân sách ngày: ${dayBudget}`)}</description>`);
+    }
+    for (const s of stops) {
+      lines.push(`    <Placemark>`);
+      lines.push(`      <name>${s.index + 1}. ${escapeXml(s.name)}</name>`);
+      const desc = description(s);
+      if (desc) lines.push(`      ${desc}`);
+      lines.push(`      <Point><coordinates>${s.lng},${s.lat},0</coordinates></Point>`);
+      lines.push(`    </Placemark>`);
+    }
+    const route = routes?.get(day);
+    if (route && route.coordinates.length > 1) {
+      lines.push(`    <Placemark>`);
+      lines.push(`      <name>Lộ trình ngày ${day}</name>`);
+      lines.push(`      <LineString><tessellate>1</tessellate><coordinates>`);
+      lines.push(`        ${route.coordinates.map(([lng, lat]) => `${lng},${lat},0`).join(" ")}`);
+      lines.push(`      </coordinates></LineString>`);
+      lines.push(`    </Placemark>`);
+    }
+    lines.push(`  </Folder>`);
+  }
+
+  lines.push(`</Document>`, `</kml>`, "");
+  return lines.join("\n");
+};
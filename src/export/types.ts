@@ -0,0 +1,14 @@
+import type { MapPoint } from "../itinerary";
+
+// what the exporters get besides the stops themselves
+export type ExportInput = {
+  title: string;
+  points: MapPoint[];
+  // routed line per day, when one has been computed
+  routes?: Map<number, GeoJSON.LineString>;
+  // boundary outline already drawn for a stop (day, index within the day)
+  boundaryFor?: (day: number, index: number) => GeoJSON.Geometry | null;
+};
+
+// a stop with usable coordinates and its position within its day
+export type ExportStop = MapPoint & { index: number };
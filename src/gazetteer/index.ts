@@ -0,0 +1,165 @@
+import { hasCoords, type Itinerary } from "../itinerary";
+import { circlePolygon, distanceMeters } from "../utils/geo";
+import { foldDiacritics } from "../utils/text";
+import data from "./vietnam.json";
+
+// Bundled offline gazetteer: the 63 provinces and the 34 of the 1 July 2025 merger (the 23
+// merged ones named "<tỉnh> (mới)", the 11 unchanged ones under their own name), major cities
+// and top landmarks, with Vietnamese and English names.
+// Province outlines are simplified Natural Earth admin-1 boundaries (public domain), the 2025
+// provinces being the union of the provinces merged into them; cities and landmarks are a
+// center and a radius.
+
+export type GazetteerKind = "province" | "province-2025" | "city" | "landmark";
+
+export type GazetteerEntry = {
+  id: string;
+  kind: GazetteerKind;
+  name: string;
+  en: string;
+  center: [number, number];
+  outline: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  // [minLng, minLat, maxLng, maxLat]
+  bbox: [number, number, number, number];
+  // cities and landmarks: meters around the center
+  radius?: number;
+  // cities and landmarks: id of the (pre-2025) province
+  province?: string;
+  // 2025 provinces: ids of the provinces merged into it
+  merged?: string[];
+};
+
+type FeatureProps = {
+  kind: GazetteerKind;
+  name: string;
+  en: string;
+  aliases: string[];
+  center?: [number, number];
+  radius?: number;
+  province?: string;
+  merged?: string[];
+};
+
+// a stop this close to an entry's extent is taken to be that place
+export const NEAR_MARGIN_M = 5000;
+
+// the most specific kind wins when names collide ("Huế" the city over the province alias)
+const KIND_RANK: Record<GazetteerKind, number> = {
+  landmark: 0,
+  city: 1,
+  province: 2,
+  "province-2025": 3,
+};
+
+// "Tỉnh Hà Giang", "ha giang province" and "HaGiang" share one key
+export const placeKey = (name: string): string =>
+  foldDiacritics(name)
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^(tinh|thanh pho|tp|thi xa|thi tran) /, "")
+    .replace(/ (province|city|town)$/, "")
+    .replace(/ /g, "");
+
+const ringBBox = (ring: GeoJSON.Position[]): [number, number, number, number] => [
+  Math.min(...ring.map((c) => c[0])),
+  Math.min(...ring.map((c) => c[1])),
+  Math.max(...ring.map((c) => c[0])),
+  Math.max(...ring.map((c) => c[1])),
+];
+
+// outer rings of every part (islands included)
+const outerRings = (g: GeoJSON.Polygon | GeoJSON.MultiPolygon): GeoJSON.Position[] =>
+  g.type === "Polygon" ? g.coordinates[0] : g.coordinates.flatMap((p) => p[0]);
+
+const toEntry = (f: GeoJSON.Feature<GeoJSON.Geometry, FeatureProps>): GazetteerEntry => {
+  const { kind, name, en, center, radius, province, merged } = f.properties;
+  const base = { id: String(f.id), kind, name, en, province, merged };
+  if (f.geometry.type === "Point") {
+    const at = f.geometry.coordinates as [number, number];
+    const outline = circlePolygon(at, radius ?? 1000);
+    return { ...base, center: at, radius, outline, bbox: ringBBox(outline.coordinates[0]) };
+  }
+  const outline = f.geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  const bbox = ringBBox(outerRings(outline));
+  return {
+    ...base,
+    center: center ?? [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2],
+    outline,
+    bbox,
+  };
+};
+
+const features = (data as unknown as GeoJSON.FeatureCollection<GeoJSON.Geometry, FeatureProps>)
+  .features;
+export const GAZETTEER: GazetteerEntry[] = features.map(toEntry);
+
+const byKey = new Map<string, GazetteerEntry[]>();
+features.forEach((f, i) => {
+  const { name, en, aliases } = f.properties;
+  const keys = new Set([name, en, ...aliases].map(placeKey).filter(Boolean));
+  for (const k of keys) byKey.set(k, [...(byKey.get(k) ?? []), GAZETTEER[i]]);
+});
+for (const list of byKey.values()) list.sort((a, b) => KIND_RANK[a.kind] - KIND_RANK[b.kind]);
+
+// the name as given, without a "(Hội An)" qualifier, and its part before the first comma
+const keysFor = (name: string) =>
+  [
+    ...new Set([
+      placeKey(name),
+      placeKey(name.replace(/\(.*?\)/g, "")),
+      placeKey(name.split(",")[0]),
+    ]),
+  ].filter(Boolean);
+
+// every entry with this name, most specific first (diacritics, case and "tỉnh"/"city" ignored)
+export const lookupPlaces = (name: string): GazetteerEntry[] => {
+  for (const k of keysFor(name)) {
+    const list = byKey.get(k);
+    if (list) return list;
+  }
+  return [];
+};
+
+export const lookupPlace = (name: string): GazetteerEntry | null => lookupPlaces(name)[0] ?? null;
+
+// [lng, lat] lies within marginM of the entry's outline (its radius, or its bounding box)
+export const entryContains = (
+  e: GazetteerEntry,
+  at: [number, number],
+  marginM = NEAR_MARGIN_M
+): boolean => {
+  if (e.radius !== undefined) return distanceMeters(e.center, at) <= e.radius + marginM;
+  const [minLng, minLat, maxLng, maxLat] = e.bbox;
+  const dLat = marginM / 111_320;
+  const dLng = dLat / Math.cos((at[1] * Math.PI) / 180);
+  return (
+    at[0] >= minLng - dLng &&
+    at[0] <= maxLng + dLng &&
+    at[1] >= minLat - dLat &&
+    at[1] <= maxLat + dLat
+  );
+};
+
+// the entry with this name at these coordinates; a same-named place elsewhere doesn't match
+export const lookupPlaceNear = (
+  name: string,
+  at: [number, number],
+  marginM = NEAR_MARGIN_M
+): GazetteerEntry | null => lookupPlaces(name).find((e) => entryContains(e, at, marginM)) ?? null;
+
+// fill in coordinates the model left out for places the gazetteer knows; returns the same
+// object when nothing changed
+export const locateFromGazetteer = (itinerary: Itinerary): Itinerary => {
+  let changed = false;
+  const days = itinerary.days.map((d) => ({
+    ...d,
+    destinations: d.destinations.map((p) => {
+      if (hasCoords(p.lat, p.lng)) return p;
+      const e = p.name ? lookupPlace(p.name) : null;
+      if (!e) return p;
+      changed = true;
+      return { ...p, lng: e.center[0], lat: e.center[1] };
+    }),
+  }));
+  return changed ? { ...itinerary, days } : itinerary;
+};
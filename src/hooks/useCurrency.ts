@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import {
+  canRefreshRates,
+  convertAmount,
+  currencyStore,
+  ratesAreStale,
+} from "../services/currency";
+import { formatMoney } from "../itinerary";
+
+// display currency + rates shared by every budget view; refreshes stale rates once when an
+// endpoint is configured
+export function useCurrency() {
+  const { display, rates } = useSyncExternalStore(
+    currencyStore.subscribe,
+    currencyStore.getSnapshot
+  );
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const refreshRates = useCallback(async () => {
+    setRefreshing(true);
+    setRefreshError(null);
+    try {
+      await currencyStore.refresh();
+    } catch (e) {
+      console.warn("Refreshing exchange rates failed", e);
+      setRefreshError("Không cập nhật được tỷ giá, đang dùng bảng tích hợp sẵn.");
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (ratesAreStale(currencyStore.getSnapshot().rates)) refreshRates();
+  }, [refreshRates]);
+
+  const convert = useCallback(
+    (amount: number, from: string, to: string = display) =>
+      convertAmount(amount, from, to, rates),
+    [display, rates]
+  );
+
+  // "≈ $12.34" in the display currency, or null when nothing needs converting
+  const formatConverted = useCallback(
+    (amount: number, from: string) => {
+      if (from === display) return null;
+      const v = convertAmount(amount, from, display, rates);
+      return v === null ? null : `≈ ${formatMoney(v, display)}`;
+    },
+    [display, rates]
+  );
+
+  return {
+    display,
+    setDisplay: currencyStore.setDisplay,
+    rates,
+    canRefreshRates,
+    refreshRates,
+    refreshing,
+    refreshError,
+    convert,
+    formatConverted,
+  };
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from "react";
+import { askJourneyBot, type Msg } from "../services/journey";
+import {
+  itineraryToPoints,
+  parseItinerary,
+  validateItinerary,
+  type Itinerary,
+  type MapPoint,
+} from "../itinerary";
+
+// send/stop logic for the journey chat, plus the state of the request in flight
+export function useJourneyChat({
+  messages,
+  setMessages,
+  itinerary,
+  onItinerary,
+}: {
+  messages: Msg[];
+  setMessages: React.Dispatch<React.SetStateAction<Msg[]>>;
+  itinerary: MapPoint[];
+  onItinerary: (points: MapPoint[], kind: Itinerary["kind"]) => void;
+}) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // prose received so far for the reply currently streaming in
+  const [streamText, setStreamText] = useState("");
+  // set while the map JSON is being sent back to the model for correction
+  const [repairing, setRepairing] = useState<string[] | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  // abort an in-flight stream on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const send = async (text: string) => {
+    text = text.trim();
+    if (!text || loading) return;
+
+    const userMsg: Msg = { role: "user", content: text };
+    // snapshot prior turns before appending so the new prompt isn't sent twice
+    const history = messages;
+    setMessages((prev) => [...prev, userMsg]);
+    setLoading(true);
+    setError(null);
+    setStreamText("");
+    setRepairing(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let partial = "";
+
+    try {
+      const { text: reply, jsonData, repair } = await askJourneyBot(text, {
+        history,
+        itinerary,
+        signal: controller.signal,
+        onText: (visible) => {
+          partial = visible;
+          setStreamText(visible);
+        },
+        onRepair: (problems) => setRepairing(problems),
+      });
+
+      console.log("AI raw jsonData:", jsonData);
+
+      const assistantMsg: Msg = { role: "assistant", content: reply };
+      setMessages((prev) => [...prev, assistantMsg]);
+
+      if (repair) {
+        const lines = [
+          repair.remaining.length === 0
+            ? `🔧 Đã tự động sửa dữ liệu bản đồ (${repair.attempts} lần thử):`
+            : `⚠️ Đã thử sửa dữ liệu bản đồ ${repair.attempts} lần nhưng vẫn còn lỗi:`,
+          ...repair.fixed.map((p) => `- ✓ ${p}`),
+          ...repair.remaining.map((p) => `- ✗ ${p}`),
+        ];
+        setMessages((prev) => [
+          ...prev,
+          { role: "assistant", content: lines.join("\n"), notice: true },
+        ]);
+      }
+
+      const parsed = parseItinerary(jsonData);
+      if (parsed) {
+        const issues = validateItinerary(parsed);
+        if (issues.length) console.warn("Itinerary issues:", issues);
+        const points = itineraryToPoints(parsed);
+        if (points.length) {
+          onItinerary(points, parsed.kind);
+          console.log("Normalized mapData:", points);
+        }
+      }
+    } catch (err: unknown) {
+      if (controller.signal.aborted) {
+        // stopped by the user: keep whatever prose arrived, drop the unfinished JSON
+        if (partial) {
+          setMessages((prev) => [
+            ...prev,
+            { role: "assistant", content: `${partial}\n\n_(Đã dừng)_` },
+          ]);
+        }
+        return;
+      }
+      const msg =
+        err instanceof Error ? err.message : String(err ?? "Lỗi khi gọi AI");
+      setError(msg);
+      setMessages((prev) => [
+        ...prev,
+        { role: "assistant", content: `Lỗi: ${msg}`, error: true },
+      ]);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreamText("");
+      setRepairing(null);
+      setLoading(false);
+    }
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+  };
+
+  return { loading, error, streamText, repairing, send, stop };
+}
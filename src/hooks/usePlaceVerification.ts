@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react";
+import { hasCoords, normalizeCoords, type MapPoint } from "../itinerary";
+import { placeCheckKey, verifyPlace, type PlaceCheck } from "../services/geocode";
+
+// results survive remounts and trip switches; a place is only looked up once per session
+const checked = new Map<string, PlaceCheck>();
+
+// the coordinates the map draws, so a swapped lat/lng isn't flagged
+const located = (p: MapPoint) => {
+  const { lat, lng } = normalizeCoords(p.lat, p.lng);
+  return hasCoords(lat, lng) ? { name: p.name, lat, lng } : null;
+};
+
+// verify every stop's coordinates in the background, one at a time (the Nominatim client
+// spaces the requests). Returns the check for a stop (undefined while pending) and a way to
+// dismiss a flag the user wants to keep.
+export function usePlaceVerification(points: MapPoint[], enabled = true) {
+  const [checks, setChecks] = useState(() => new Map(checked));
+  const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const pending = [
+      ...new Map(
+        points
+          .map(located)
+          .filter((p) => p !== null && p.name)
+          .map((p) => [placeCheckKey(p!), p!])
+      ),
+    ].filter(([key]) => !checked.has(key));
+    if (pending.length === 0) return;
+
+    const ctrl = new AbortController();
+    (async () => {
+      for (const [key, p] of pending) {
+        if (ctrl.signal.aborted) return;
+        try {
+          const check = await verifyPlace(p);
+          checked.set(key, check);
+          if (ctrl.signal.aborted) return;
+          setChecks(new Map(checked));
+        } catch (e) {
+          if (ctrl.signal.aborted) return;
+          // unreachable geocoder: leave unchecked, try again with the next itinerary change
+          console.warn("Verifying coordinates failed for", p.name, e);
+        }
+      }
+    })();
+    return () => ctrl.abort();
+  }, [points, enabled]);
+
+  const checkFor = useCallback(
+    (p: MapPoint): PlaceCheck | undefined => {
+      const at = located(p);
+      if (!at) return undefined;
+      const key = placeCheckKey(at);
+      return dismissed.has(key) ? { status: "ok" } : checks.get(key);
+    },
+    [checks, dismissed]
+  );
+
+  const dismiss = useCallback((p: MapPoint) => {
+    const at = located(p);
+    if (at) setDismissed((prev) => new Set(prev).add(placeCheckKey(at)));
+  }, []);
+
+  return { checkFor, dismiss };
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef } from "react";
+import type { Expense } from "../expenses";
+import type { Itinerary, MapPoint } from "../itinerary";
+import type { Msg } from "../services/journey";
+import { saveTrip, type SavedTrip } from "../services/trips";
+
+const SAVE_DEBOUNCE_MS = 500;
+
+type TripSnapshot = {
+  messages: Msg[];
+  itinerary: MapPoint[];
+  kind: Itinerary["kind"];
+  travelers: number;
+  expenses: Expense[];
+  members: string[];
+};
+
+// write the conversation, itinerary and expenses to IndexedDB whenever they change (debounced,
+// and flushed when the trip is closed or the page hidden). The first save of a new trip creates
+// its record; onSaved reports the id so the URL can follow.
+export function useTripAutosave({
+  enabled = true,
+  tripId,
+  messages,
+  itinerary,
+  itineraryKind,
+  travelers,
+  expenses,
+  members,
+  onSaved,
+}: {
+  enabled?: boolean;
+  tripId: string | null;
+  messages: Msg[];
+  itinerary: MapPoint[];
+  itineraryKind: Itinerary["kind"];
+  travelers: number;
+  expenses: Expense[];
+  members: string[];
+  onSaved?: (trip: SavedTrip) => void;
+}) {
+  const idRef = useRef(tripId);
+  // what is already on disk; opening a trip must not count as a change
+  const savedRef = useRef<Omit<TripSnapshot, "kind">>({
+    messages,
+    itinerary,
+    travelers,
+    expenses,
+    members,
+  });
+  const onSavedRef = useRef(onSaved);
+  // the latest unsaved state, and the save in progress: saves run one after another, so the
+  // first one's id reaches the next and a new trip is only created once
+  const pendingRef = useRef<TripSnapshot | null>(null);
+  const chainRef = useRef<Promise<void>>(Promise.resolve());
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    onSavedRef.current = onSaved;
+  }, [onSaved]);
+
+  const flushRef = useRef(() => {
+    const data = pendingRef.current;
+    if (!data) return;
+    pendingRef.current = null;
+    chainRef.current = chainRef.current.then(() =>
+      saveTrip({ id: idRef.current, ...data })
+        .then((trip) => {
+          idRef.current = trip.id;
+          savedRef.current = data;
+          // an unmounted store no longer owns the URL
+          if (mountedRef.current) onSavedRef.current?.(trip);
+        })
+        .catch((e) => console.warn("Saving trip failed", e))
+    );
+  });
+
+  // leaving the page or the trip must not drop the last edits
+  useEffect(() => {
+    mountedRef.current = true;
+    const flush = flushRef.current;
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      mountedRef.current = false;
+      flush();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (
+      savedRef.current.messages === messages &&
+      savedRef.current.itinerary === itinerary &&
+      savedRef.current.travelers === travelers &&
+      savedRef.current.expenses === expenses &&
+      savedRef.current.members === members
+    ) {
+      pendingRef.current = null;
+      return;
+    }
+    if (messages.length === 0 && itinerary.length === 0) return;
+
+    pendingRef.current = {
+      messages,
+      itinerary,
+      kind: itineraryKind,
+      travelers,
+      expenses,
+      members,
+    };
+    const t = setTimeout(flushRef.current, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(t);
+    // the kind only changes together with the itinerary
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, messages, itinerary, travelers, expenses, members]);
+}
@@ -0,0 +1,241 @@
+import { foldDiacritics } from "../utils/text";
+import type { BudgetCategory, BudgetLine, MapPoint } from "./types";
+
+export const DEFAULT_CURRENCY = "VND";
+
+export const BUDGET_CATEGORIES: {
+  id: BudgetCategory;
+  label: string;
+  color: string;
+}[] = [
+  { id: "lodging", label: "Lưu trú", color: "#3b82f6" },
+  { id: "food", label: "Ăn uống", color: "#f59e0b" },
+  { id: "transport", label: "Di chuyển", color: "#10b981" },
+  { id: "tickets", label: "Vé tham quan", color: "#ec4899" },
+  { id: "other", label: "Khác", color: "#8b5cf6" },
+];
+
+export const categoryLabel = (id: BudgetCategory) =>
+  BUDGET_CATEGORIES.find((c) => c.id === id)?.label ?? id;
+
+// names the model (or a person) may use for each category, diacritics folded
+const CATEGORY_ALIASES: [BudgetCategory, string[]][] = [
+  ["lodging", ["lodging", "accommodation", "hotel", "stay", "luu tru", "khach san", "nha nghi", "homestay", "cho o"]],
+  ["food", ["food", "meal", "meals", "dining", "an uong", "do an", "am thuc", "an"]],
+  ["transport", ["transport", "transportation", "travel", "di chuyen", "van chuyen", "xe", "taxi", "ve may bay"]],
+  ["tickets", ["tickets", "ticket", "entrance", "admission", "ve tham quan", "ve vao cua", "ve"]],
+];
+
+export const parseCategory = (v: unknown): BudgetCategory => {
+  const s = foldDiacritics(String(v ?? ""));
+  if (!s || s === "other") return "other";
+  for (const [id, names] of CATEGORY_ALIASES) {
+    if (s === id || names.includes(s)) return id;
+  }
+  // "chi phí ăn uống", "vé tham quan bảo tàng"; short aliases only match exactly
+  for (const [id, names] of CATEGORY_ALIASES) {
+    if (names.some((n) => n.length > 2 && s.includes(n))) return id;
+  }
+  return "other";
+};
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  "₫": "VND",
+  d: "VND",
+  dong: "VND",
+  vnd: "VND",
+  $: "USD",
+  usd: "USD",
+  "€": "EUR",
+  eur: "EUR",
+  "₩": "KRW",
+  krw: "KRW",
+  "¥": "JPY",
+  jpy: "JPY",
+  yen: "JPY",
+};
+
+export const parseCurrency = (v: unknown): string | undefined => {
+  if (typeof v !== "string") return undefined;
+  const s = foldDiacritics(v).replace(/[\s.]/g, "");
+  if (CURRENCY_ALIASES[s]) return CURRENCY_ALIASES[s];
+  return /^[a-z]{3}$/.test(s) ? s.toUpperCase() : undefined;
+};
+
+// 1200000, "1.200.000 ₫", "1,2 triệu", "500k" -> number (NaN if none)
+export const parseAmount = (v: unknown): number => {
+  if (typeof v === "number") return isFinite(v) ? v : NaN;
+  if (typeof v !== "string") return NaN;
+  const s = foldDiacritics(v).replace(/\s+/g, "");
+  const m = /(\d[\d.,]*)(.*)$/.exec(s);
+  if (!m) return NaN;
+  // "1.200.000" / "1,200,000" are thousands separators; a single "," or "." is a decimal point
+  const digits = /^\d{1,3}([.,]\d{3})+$/.test(m[1])
+    ? m[1].replace(/[.,]/g, "")
+    : m[1].replace(",", ".");
+  const n = parseFloat(digits);
+  if (!isFinite(n)) return NaN;
+  const unit = m[2];
+  if (/^(trieu|tr)/.test(unit)) return n * 1_000_000;
+  if (/^(k|nghin|ngan)/.test(unit)) return n * 1_000;
+  return n;
+};
+
+const currencyInText = (s: string) =>
+  parseCurrency(/[₫$€₩¥]/.exec(s)?.[0] ?? "") ??
+  parseCurrency(/[a-zA-Z]{3}\s*$/.exec(s.trim())?.[0] ?? "");
+
+const toLine = (o: Record<string, unknown>): BudgetLine | null => {
+  const rawAmount = o["amount"] ?? o["total"] ?? o["cost"];
+  let amount = parseAmount(rawAmount);
+  let perPerson = o["perPerson"] === true;
+  // older shape: { perPerson: 400000 } is a per-person amount
+  if (!isFinite(amount) && typeof o["perPerson"] === "number") {
+    amount = o["perPerson"] as number;
+    perPerson = true;
+  }
+  if (!isFinite(amount)) return null;
+  const note = o["note"];
+  return {
+    category: parseCategory(o["category"] ?? o["type"] ?? o["label"]),
+    amount,
+    currency:
+      parseCurrency(o["currency"]) ??
+      (typeof rawAmount === "string" ? currencyInText(rawAmount) : undefined) ??
+      DEFAULT_CURRENCY,
+    ...(perPerson ? { perPerson } : {}),
+    ...(typeof note === "string" && note ? { note } : {}),
+  };
+};
+
+// budget as sent by the model: a list of lines is the documented shape; a bare number/string,
+// a { total, currency } object or a { "ăn uống": 300000, ... } map become lines too
+export const parseBudgetLines = (raw: unknown): BudgetLine[] | undefined => {
+  if (raw === null || raw === undefined || raw === "") return undefined;
+  if (Array.isArray(raw)) {
+    const lines = raw
+      .filter((x): x is Record<string, unknown> => !!x && typeof x === "object")
+      .map(toLine)
+      .filter((l): l is BudgetLine => !!l);
+    return lines.length ? lines : undefined;
+  }
+  if (typeof raw === "number" || typeof raw === "string") {
+    const line = toLine({ amount: raw });
+    return line ? [line] : undefined;
+  }
+  if (typeof raw !== "object") return undefined;
+  const o = raw as Record<string, unknown>;
+  const items = o["items"] ?? o["lines"];
+  if (Array.isArray(items)) return parseBudgetLines(items);
+  if ("amount" in o || "total" in o || "perPerson" in o) {
+    const line = toLine(o);
+    return line ? [line] : undefined;
+  }
+  const currency = parseCurrency(o["currency"]);
+  const lines = Object.entries(o)
+    .filter(([k]) => parseCategory(k) !== "other" || foldDiacritics(k) === "other")
+    .map(([k, v]) => toLine({ category: k, amount: v, currency }))
+    .filter((l): l is BudgetLine => !!l);
+  return lines.length ? lines : undefined;
+};
+
+// trips saved before budget lines kept one raw budget per stop (the day's, inherited)
+export const upgradeLegacyBudgets = (points: MapPoint[]): MapPoint[] =>
+  points.map((p) => {
+    const raw = p.budget as unknown;
+    if (raw === undefined || Array.isArray(raw)) return p;
+    const copy: MapPoint = { ...p, dayBudget: p.dayBudget ?? parseBudgetLines(raw) };
+    delete copy.budget;
+    return copy;
+  });
+
+export const lineTotal = (line: BudgetLine, travelers: number) =>
+  line.perPerson ? line.amount * travelers : line.amount;
+
+export type BudgetTotals = {
+  total: number;
+  byCategory: Record<BudgetCategory, number>;
+  // lines in another currency than the summary's, not included in the sums
+  skipped: number;
+};
+
+export type BudgetSummary = {
+  currency: string;
+  travelers: number;
+  trip: BudgetTotals;
+  days: Map<number, BudgetTotals>;
+};
+
+const emptyTotals = (): BudgetTotals => ({
+  total: 0,
+  byCategory: { lodging: 0, food: 0, transport: 0, tickets: 0, other: 0 },
+  skipped: 0,
+});
+
+// the day's own lines (taken once per day) plus every stop's lines, per day and for the trip;
+// everything is summed in the currency of the first line, converting other currencies when a
+// converter is given (lines it can't convert are skipped)
+export const summarizeBudget = (
+  points: MapPoint[],
+  travelers = 1,
+  convert?: (amount: number, from: string, to: string) => number | null
+): BudgetSummary => {
+  const people = Math.max(1, Math.floor(travelers) || 1);
+  const currency =
+    points.flatMap((p) => [...(p.dayBudget ?? []), ...(p.budget ?? [])])[0]
+      ?.currency ?? DEFAULT_CURRENCY;
+  const trip = emptyTotals();
+  const days = new Map<number, BudgetTotals>();
+  const add = (day: number, line: BudgetLine) => {
+    if (!days.has(day)) days.set(day, emptyTotals());
+    const d = days.get(day)!;
+    const amount =
+      line.currency === currency
+        ? lineTotal(line, people)
+        : (convert?.(lineTotal(line, people), line.currency, currency) ?? null);
+    if (amount === null) {
+      d.skipped++;
+      trip.skipped++;
+      return;
+    }
+    d.total += amount;
+    d.byCategory[line.category] += amount;
+    trip.total += amount;
+    trip.byCategory[line.category] += amount;
+  };
+  const seenDays = new Set<number>();
+  for (const p of points) {
+    if (!seenDays.has(p.day) && p.dayBudget) {
+      seenDays.add(p.day);
+      p.dayBudget.forEach((l) => add(p.day, l));
+    }
+    p.budget?.forEach((l) => add(p.day, l));
+  }
+  return { currency, travelers: people, trip, days };
+};
+
+export const formatMoney = (amount: number, currency = DEFAULT_CURRENCY) => {
+  if (currency === "VND") {
+    return `${new Intl.NumberFormat("vi-VN").format(Math.round(amount))} ₫`;
+  }
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+// "Lưu trú: 500.000 ₫/người; Ăn uống: 300.000 ₫"
+export const formatBudgetLines = (lines: BudgetLine[] | undefined) =>
+  (lines ?? [])
+    .map(
+      (l) =>
+        `${categoryLabel(l.category)}: ${formatMoney(l.amount, l.currency)}${
+          l.perPerson ? "/người" : ""
+        }${l.note ? ` (${l.note})` : ""}`
+    )
+    .join("; ");
@@ -0,0 +1,67 @@
+import type { MapPoint } from "./types";
+
+// a stop is addressed by its day and its position among that day's stops
+export type StopRef = { day: number; index: number };
+
+// position in the flat points array of the index-th stop of a day (-1 if absent)
+const flatIndex = (points: MapPoint[], ref: StopRef) => {
+  let seen = 0;
+  for (let i = 0; i < points.length; i++) {
+    if (points[i].day !== ref.day) continue;
+    if (seen === ref.index) return i;
+    seen++;
+  }
+  return -1;
+};
+
+// the day's budget lines live on each of its stops; a stop moved to another day takes that day's
+const dayBudget = (points: MapPoint[], day: number) =>
+  points.find((p) => p.day === day && p.dayBudget !== undefined)?.dayBudget;
+
+// move a stop to `to.index` within `to.day` (clamped; past the end appends)
+export const moveStop = (
+  points: MapPoint[],
+  from: StopRef,
+  to: StopRef
+): MapPoint[] => {
+  const at = flatIndex(points, from);
+  if (at < 0) return points;
+  const rest = points.slice();
+  const [moved] = rest.splice(at, 1);
+  let stop = moved;
+  if (to.day !== from.day) {
+    stop = { ...moved, day: to.day };
+    const budget = dayBudget(rest, to.day);
+    if (budget !== undefined) stop.dayBudget = budget;
+    else delete stop.dayBudget;
+  }
+  // insert before the target day's to.index-th stop, else after its last stop
+  let insertAt = flatIndex(rest, to);
+  if (insertAt < 0) {
+    const last = rest.map((p) => p.day).lastIndexOf(to.day);
+    // empty day: keep days in ascending order in the flat list
+    const after = rest.findIndex((p) => p.day > to.day);
+    insertAt = last >= 0 ? last + 1 : after < 0 ? rest.length : after;
+  }
+  rest.splice(insertAt, 0, stop);
+  return rest;
+};
+
+export const removeStop = (points: MapPoint[], ref: StopRef): MapPoint[] => {
+  const at = flatIndex(points, ref);
+  return at < 0 ? points : points.filter((_, i) => i !== at);
+};
+
+export const updateStop = (
+  points: MapPoint[],
+  ref: StopRef,
+  patch: Partial<Pick<MapPoint, "name" | "desc" | "time" | "lat" | "lng">>
+): MapPoint[] => {
+  const at = flatIndex(points, ref);
+  if (at < 0) return points;
+  return points.map((p, i) => (i === at ? { ...p, ...patch } : p));
+};
+
+// next unused day number
+export const nextDay = (days: number[]) =>
+  days.reduce((max, d) => Math.max(max, d), 0) + 1;
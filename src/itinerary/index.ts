@@ -0,0 +1,39 @@
+export type {
+  BudgetCategory,
+  BudgetLine,
+  DayPlan,
+  Itinerary,
+  ItineraryIssue,
+  MapPoint,
+  Place,
+  PlaceGeometry,
+} from "./types";
+export {
+  itineraryToJson,
+  itineraryToPoints,
+  normalizeCoords,
+  parseItinerary,
+  parsePoints,
+  parseTime,
+  pointsToItinerary,
+  toNumber,
+} from "./parse";
+export { hasCoords, isInVietnam, validateItinerary, VIETNAM_BOUNDS } from "./validate";
+export { mergeItineraries } from "./merge";
+export { moveStop, nextDay, removeStop, updateStop, type StopRef } from "./edit";
+export {
+  BUDGET_CATEGORIES,
+  categoryLabel,
+  DEFAULT_CURRENCY,
+  formatBudgetLines,
+  formatMoney,
+  lineTotal,
+  parseAmount,
+  parseBudgetLines,
+  parseCategory,
+  parseCurrency,
+  summarizeBudget,
+  upgradeLegacyBudgets,
+  type BudgetSummary,
+  type BudgetTotals,
+} from "./budget";
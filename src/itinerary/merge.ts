@@ -0,0 +1,68 @@
+import { foldDiacritics } from "../utils/text";
+import type { DayPlan, Itinerary, Place } from "./types";
+import { hasCoords, isInVietnam } from "./validate";
+
+const isUsableCoords = (p: Place | undefined) =>
+  !!p && hasCoords(p.lat, p.lng) && isInVietnam(p.lat, p.lng);
+
+const isUsableDay = (d: number) => Number.isInteger(d) && d > 0;
+
+const mergePlace = (orig: Place, fix: Place | undefined): Place => {
+  if (!fix) return orig;
+  const out = { ...orig };
+  if (!out.name && fix.name) out.name = fix.name;
+  if (!isUsableCoords(orig) && isUsableCoords(fix)) {
+    out.lat = fix.lat;
+    out.lng = fix.lng;
+  }
+  if (!out.desc && fix.desc) out.desc = fix.desc;
+  if (!out.source && fix.source) out.source = fix.source;
+  if (!out.time && fix.time) out.time = fix.time;
+  if (!out.budget && fix.budget) out.budget = fix.budget;
+  return out;
+};
+
+const mergeDay = (orig: DayPlan, fix: DayPlan | undefined): DayPlan => {
+  if (!fix) return orig;
+  const byName = new Map<string, Place>();
+  fix.destinations.forEach((p) => {
+    if (p.name) byName.set(foldDiacritics(p.name), p);
+  });
+  const destinations =
+    orig.destinations.length === 0
+      ? fix.destinations
+      : orig.destinations.map((p, j) =>
+          mergePlace(
+            p,
+            (p.name ? byName.get(foldDiacritics(p.name)) : undefined) ??
+              fix.destinations[j]
+          )
+        );
+  return {
+    ...orig,
+    day: isUsableDay(orig.day) || !isUsableDay(fix.day) ? orig.day : fix.day,
+    destinations,
+    budget: orig.budget ?? fix.budget,
+  };
+};
+
+// patch the invalid parts of `original` with the model's corrected answer; valid data is never overwritten.
+// Days are matched by number (then position), stops by name (then position).
+export const mergeItineraries = (
+  original: Itinerary | null,
+  corrected: Itinerary | null
+): Itinerary | null => {
+  if (!original) return corrected;
+  if (!corrected) return original;
+  return {
+    ...original,
+    days: original.days.map((d, i) =>
+      mergeDay(
+        d,
+        (isUsableDay(d.day)
+          ? corrected.days.find((c) => c.day === d.day)
+          : undefined) ?? corrected.days[i]
+      )
+    ),
+  };
+};
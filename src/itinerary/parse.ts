@@ -0,0 +1,224 @@
+import { isWebUrl } from "../utils/text";
+import { parseBudgetLines } from "./budget";
+import type { DayPlan, Itinerary, MapPoint, Place } from "./types";
+import { validateItinerary } from "./validate";
+
+// robust number parsing: accept strings with comma decimal separators and noisy chars
+export const toNumber = (v: unknown): number => {
+  if (v === null || v === undefined || v === "") return NaN;
+  if (typeof v === "number") return isFinite(v) ? v : NaN;
+  let s = String(v).trim();
+  // if there are both '.' and ',' assume '.' is decimal and remove commas; otherwise replace comma with dot
+  if (s.indexOf(".") >= 0 && s.indexOf(",") >= 0) s = s.replace(/,/g, "");
+  else s = s.replace(/,/g, ".");
+  s = s.replace(/[^0-9.-]+/g, "");
+  const n = parseFloat(s);
+  return isFinite(n) ? n : NaN;
+};
+
+// fix swapped lat/lng from upstream: first by the global range, then by Vietnam's rough extent
+export const normalizeCoords = (
+  rawLat: unknown,
+  rawLng: unknown
+): { lat: number; lng: number; swapped: boolean } => {
+  const lat = toNumber(rawLat);
+  const lng = toNumber(rawLng);
+  if (isNaN(lat) || isNaN(lng)) return { lat, lng, swapped: false };
+
+  if (Math.abs(lat) > 90 && Math.abs(lng) <= 90) {
+    return { lat: lng, lng: lat, swapped: true };
+  }
+  // Vietnam: lat roughly between 6..24, lng roughly between 102..110 (wider margins here)
+  const looksLikeLat = (v: number) => v >= 6 && v <= 30;
+  const looksLikeLng = (v: number) => v >= 95 && v <= 120;
+  if (looksLikeLat(lng) && looksLikeLng(lat)) {
+    return { lat: lng, lng: lat, swapped: true };
+  }
+  return { lat, lng, swapped: false };
+};
+
+const asRecord = (v: unknown): Record<string, unknown> | null =>
+  v && typeof v === "object" && !Array.isArray(v)
+    ? (v as Record<string, unknown>)
+    : null;
+
+const extractSource = (o: Record<string, unknown>): string | undefined => {
+  const s = o["source"] ?? o["sourceUrl"] ?? o["url"] ?? o["wiki"];
+  return typeof s === "string" && isWebUrl(s.trim()) ? s.trim() : undefined;
+};
+
+// "8:30", "08:30", "8h30", "8h" -> "08:30"; anything else is dropped
+export const parseTime = (v: unknown): string | undefined => {
+  if (typeof v !== "string" && typeof v !== "number") return undefined;
+  const m = /^\s*(\d{1,2})\s*(?:[:hH]\s*(\d{2})?)?\s*$/.exec(String(v));
+  if (!m) return undefined;
+  const h = Number(m[1]);
+  const min = Number(m[2] ?? 0);
+  if (h > 23 || min > 59) return undefined;
+  return `${String(h).padStart(2, "0")}:${String(min).padStart(2, "0")}`;
+};
+
+const toPlace = (o: Record<string, unknown>): Place => {
+  const { lat, lng } = normalizeCoords(
+    o["lat"] ?? o["latitude"],
+    o["lng"] ?? o["lon"] ?? o["longitude"]
+  );
+  const desc = o["desc"] ?? o["description"];
+  return {
+    name: String(o["name"] ?? "").trim(),
+    lat,
+    lng,
+    desc: desc === undefined || desc === null ? undefined : String(desc),
+    source: extractSource(o),
+    time: parseTime(o["time"] ?? o["startTime"]),
+    budget: parseBudgetLines(o["budget"]),
+    geojson: asRecord(o["geojson"]) ? (o["geojson"] as Place["geojson"]) : undefined,
+  };
+};
+
+const isDayObject = (v: unknown) => {
+  const o = asRecord(v);
+  return !!o && ("day" in o || Array.isArray(o["destinations"]));
+};
+
+const toDayPlan = (o: Record<string, unknown>, fallbackDay: number): DayPlan => {
+  const rawDay = o["day"];
+  // keep whatever the model sent; the validator flags anything that isn't a positive integer
+  const day = rawDay === undefined || rawDay === null ? fallbackDay : toNumber(rawDay);
+  const dests = o["destinations"] ?? o["places"] ?? o["stops"];
+  return {
+    day,
+    destinations: Array.isArray(dests)
+      ? dests.map(asRecord).filter((d): d is Record<string, unknown> => !!d).map(toPlace)
+      : [],
+    budget: parseBudgetLines(o["budget"]),
+  };
+};
+
+// turn whatever JSON the model produced into an Itinerary:
+// an array of day objects, an array of places, a single place, or any of those wrapped in { itinerary | days }
+export const parseItinerary = (jsonData: unknown): Itinerary | null => {
+  const wrapper = asRecord(jsonData);
+  if (wrapper) {
+    const inner = wrapper["itinerary"] ?? wrapper["days"];
+    if (Array.isArray(inner)) return parseItinerary(inner);
+  }
+
+  if (Array.isArray(jsonData)) {
+    if (jsonData.length === 0) return null;
+    if (isDayObject(jsonData[0])) {
+      const days = jsonData
+        .map(asRecord)
+        .filter((d): d is Record<string, unknown> => !!d)
+        .map((d, i) => toDayPlan(d, i + 1));
+      return { kind: "itinerary", days };
+    }
+    const places = jsonData
+      .map(asRecord)
+      .filter((d): d is Record<string, unknown> => !!d)
+      .map(toPlace);
+    return places.length ? { kind: "itinerary", days: [{ day: 1, destinations: places }] } : null;
+  }
+
+  if (wrapper && ("name" in wrapper || "lat" in wrapper)) {
+    return { kind: "place", days: [{ day: 1, destinations: [toPlace(wrapper)] }] };
+  }
+  return null;
+};
+
+// flatten into the per-stop shape MapView renders; every stop carries its day's budget lines,
+// and a day with an unusable number falls back to its position in the list
+export const itineraryToPoints = (itinerary: Itinerary): MapPoint[] =>
+  itinerary.days.flatMap((d, i) =>
+    d.destinations.map((p) => ({
+      day: Number.isInteger(d.day) && d.day > 0 ? d.day : i + 1,
+      name: p.name,
+      lat: p.lat,
+      lng: p.lng,
+      desc: p.desc,
+      source: p.source,
+      time: p.time,
+      geojson: p.geojson,
+      budget: p.budget,
+      dayBudget: d.budget,
+    }))
+  );
+
+// untrusted stops (a shared link, a stored snapshot) back through the parser: regrouped by day so
+// the day's budget lines survive, non-objects dropped. null when nothing usable is left or a
+// stop has no name or day; missing coordinates are allowed, the editor shows those
+export const parsePoints = (raw: unknown): MapPoint[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const days = new Map<number, Record<string, unknown>>();
+  for (const o of raw.map(asRecord)) {
+    if (!o) continue;
+    const day = toNumber(o["day"]);
+    // older trips kept the day's budget object on each stop
+    const legacyBudget = o["budget"] !== undefined && !Array.isArray(o["budget"]);
+    const d = days.get(day) ?? {
+      day,
+      destinations: [] as Record<string, unknown>[],
+      budget: o["dayBudget"] ?? (legacyBudget ? o["budget"] : undefined),
+    };
+    (d.destinations as Record<string, unknown>[]).push(
+      legacyBudget ? { ...o, budget: undefined } : o
+    );
+    days.set(day, d);
+  }
+  const itinerary = parseItinerary([...days.values()]);
+  if (!itinerary || itinerary.days.every((d) => d.destinations.length === 0)) return null;
+  const broken = validateItinerary(itinerary).some(
+    (i) => i.code === "unknown-day" || i.code === "missing-name"
+  );
+  return broken ? null : itineraryToPoints(itinerary);
+};
+
+// inverse of itineraryToPoints: regroup stops by day (sorted), taking the day's budget lines from its stops.
+// `kind` comes from where the points came from, never from how many there are: a trip edited
+// down to one stop is still a trip
+export const pointsToItinerary = (
+  points: MapPoint[],
+  kind: Itinerary["kind"] = "itinerary"
+): Itinerary => {
+  const days = new Map<number, DayPlan>();
+  for (const p of points) {
+    const d = days.get(p.day) ?? { day: p.day, destinations: [] };
+    d.destinations.push({
+      name: p.name,
+      lat: p.lat,
+      lng: p.lng,
+      desc: p.desc,
+      source: p.source,
+      time: p.time,
+      geojson: p.geojson,
+      budget: p.budget,
+    });
+    if (d.budget === undefined && p.dayBudget !== undefined) d.budget = p.dayBudget;
+    days.set(p.day, d);
+  }
+  return {
+    kind,
+    days: Array.from(days.values()).sort((a, b) => a.day - b.day),
+  };
+};
+
+// back to the raw JSON shape the model speaks: a day/destinations array, or a bare object for a single place
+export const itineraryToJson = (itinerary: Itinerary): unknown => {
+  const placeJson = ({ name, lat, lng, desc, source, time, budget }: Place) => ({
+    name,
+    lat,
+    lng,
+    desc,
+    source,
+    ...(time !== undefined ? { time } : {}),
+    ...(budget !== undefined ? { budget } : {}),
+  });
+  if (itinerary.kind === "place" && itinerary.days[0]?.destinations[0]) {
+    return placeJson(itinerary.days[0].destinations[0]);
+  }
+  return itinerary.days.map((d) => ({
+    day: d.day,
+    destinations: d.destinations.map(placeJson),
+    ...(d.budget !== undefined ? { budget: d.budget } : {}),
+  }));
+};
@@ -0,0 +1,66 @@
+export type BudgetCategory = "lodging" | "food" | "transport" | "tickets" | "other";
+
+// one estimated cost; perPerson amounts are multiplied by the traveler count
+export type BudgetLine = {
+  category: BudgetCategory;
+  amount: number;
+  currency: string;
+  perPerson?: boolean;
+  note?: string;
+};
+
+export type PlaceGeometry =
+  | GeoJSON.Geometry
+  | GeoJSON.Feature
+  | GeoJSON.FeatureCollection;
+
+export type Place = {
+  name: string;
+  // NaN when the model gave nothing usable; the validator reports those
+  lat: number;
+  lng: number;
+  desc?: string;
+  source?: string;
+  // planned local time of the visit, "HH:MM" (24h)
+  time?: string;
+  // costs of visiting this stop (tickets, a meal there...)
+  budget?: BudgetLine[];
+  geojson?: PlaceGeometry;
+};
+
+export type DayPlan = {
+  day: number;
+  destinations: Place[];
+  // costs of the day as a whole (lodging, getting around...)
+  budget?: BudgetLine[];
+};
+
+// "place" is the single-location answer ("giới thiệu Hội An"), "itinerary" a day-by-day plan
+export type Itinerary = {
+  kind: "itinerary" | "place";
+  days: DayPlan[];
+};
+
+// flattened stop as rendered by MapView (one entry per place, tagged with its day)
+export type MapPoint = {
+  day: number;
+  name: string;
+  lat: number;
+  lng: number;
+  desc?: string;
+  source?: string;
+  time?: string;
+  geojson?: PlaceGeometry;
+  budget?: BudgetLine[];
+  // the day's own lines, repeated on each of its stops
+  dayBudget?: BudgetLine[];
+};
+
+export type ItineraryIssue = {
+  day: number;
+  // 0-based index of the stop within its day; undefined for day-level problems
+  index?: number;
+  field: "day" | "name" | "coords";
+  code: "unknown-day" | "missing-name" | "missing-coords" | "outside-vietnam";
+  message: string;
+};
@@ -0,0 +1,76 @@
+import type { Itinerary, ItineraryIssue } from "./types";
+
+// generous box around mainland Vietnam plus Hoàng Sa / Trường Sa
+export const VIETNAM_BOUNDS = {
+  minLat: 6.5,
+  maxLat: 23.5,
+  minLng: 102.1,
+  maxLng: 117.5,
+};
+
+export const isInVietnam = (lat: number, lng: number) =>
+  lat >= VIETNAM_BOUNDS.minLat &&
+  lat <= VIETNAM_BOUNDS.maxLat &&
+  lng >= VIETNAM_BOUNDS.minLng &&
+  lng <= VIETNAM_BOUNDS.maxLng;
+
+export const hasCoords = (lat: number, lng: number) =>
+  isFinite(lat) && isFinite(lng) && !(lat === 0 && lng === 0);
+
+// report per-field problems; messages are Vietnamese so they can be shown in the chat or fed back to the model
+export const validateItinerary = (itinerary: Itinerary): ItineraryIssue[] => {
+  const issues: ItineraryIssue[] = [];
+  const seenDays = new Set<number>();
+
+  itinerary.days.forEach((d, dayIdx) => {
+    const dayLabel = Number.isInteger(d.day) && d.day > 0 ? d.day : dayIdx + 1;
+    if (!Number.isInteger(d.day) || d.day <= 0) {
+      issues.push({
+        day: dayLabel,
+        field: "day",
+        code: "unknown-day",
+        message: `mục thứ ${dayIdx + 1} có số ngày không hợp lệ (${String(d.day)})`,
+      });
+    } else if (seenDays.has(d.day)) {
+      issues.push({
+        day: d.day,
+        field: "day",
+        code: "unknown-day",
+        message: `ngày ${d.day} bị lặp lại`,
+      });
+    }
+    seenDays.add(d.day);
+
+    d.destinations.forEach((p, index) => {
+      const where = `ngày ${dayLabel}, điểm ${index + 1}${p.name ? ` (${p.name})` : ""}`;
+      if (!p.name) {
+        issues.push({
+          day: dayLabel,
+          index,
+          field: "name",
+          code: "missing-name",
+          message: `${where} thiếu tên`,
+        });
+      }
+      if (!hasCoords(p.lat, p.lng)) {
+        issues.push({
+          day: dayLabel,
+          index,
+          field: "coords",
+          code: "missing-coords",
+          message: `${where} thiếu lat/lng`,
+        });
+      } else if (!isInVietnam(p.lat, p.lng)) {
+        issues.push({
+          day: dayLabel,
+          index,
+          field: "coords",
+          code: "outside-vietnam",
+          message: `${where} có tọa độ (${p.lat}, ${p.lng}) nằm ngoài Việt Nam`,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
@@ -1,21 +1,97 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import ChatBox from "../../components/Chat/ChatBox";
-import MapView, { type MapPoint } from "../../components/Map/MapView";
+import MapView from "../../components/Map/MapView";
+import TripProvider from "../../context/TripProvider";
+import { getTrip, type SavedTrip } from "../../services/trips";
+
+// which trip the page is showing; `key` remounts the store when another trip is opened
+type Session = { key: string; id: string | null; trip: SavedTrip | null };
+
+let newSessionCounter = 0;
 
 const HomePage = () => {
-  const [mapData, setMapData] = useState<MapPoint[]>([]);
-  return (
-    <div className="flex flex-col h-screen lg:flex-row">
-      <div className="lg:w-[30%] hidden lg:block rounded-tr-lg rounded-br-lg">
-        <ChatBox mapData={mapData} setMapData={setMapData} />
-      </div>
-      <div className="flex-1 p-3 h-full">
-        <MapView points={mapData} />
+  const [params, setParams] = useSearchParams();
+  const urlId = params.get("trip");
+  const [session, setSession] = useState<Session | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const currentId = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    // already showing this trip (e.g. autosave just gave the new trip its id)
+    if (currentId.current !== undefined && currentId.current === urlId) return;
+    currentId.current = urlId;
+    setLoadError(null);
+    if (!urlId) {
+      setSession({ key: `new-${++newSessionCounter}`, id: null, trip: null });
+      return;
+    }
+    let cancelled = false;
+    setSession(null);
+    getTrip(urlId)
+      .then((trip) => {
+        if (cancelled) return;
+        if (!trip) setLoadError("Không tìm thấy chuyến đi đã lưu.");
+        setSession({ key: urlId, id: trip ? urlId : null, trip });
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.warn("Loading trip failed", e);
+        setLoadError("Không thể mở chuyến đi đã lưu.");
+        setSession({ key: urlId, id: null, trip: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [urlId]);
+
+  const handleTripSaved = useCallback(
+    (trip: SavedTrip) => {
+      if (currentId.current === trip.id) return;
+      currentId.current = trip.id;
+      setParams({ trip: trip.id }, { replace: true });
+    },
+    [setParams]
+  );
+
+  if (!session) {
+    return (
+      <div className="flex h-screen items-center justify-center text-sm text-gray-600">
+        Đang mở chuyến đi...
       </div>
-      <div className="lg:w-[30%] lg:hidden lg:static lg:h-full absolute bottom-0 h-72 md:h-96  block p-3 w-full">
-        <ChatBox mapData={mapData} setMapData={setMapData} />
+    );
+  }
+
+  return (
+    <TripProvider
+      key={session.key}
+      tripId={session.id}
+      title={session.trip?.title}
+      initialMessages={session.trip?.messages}
+      initialItinerary={session.trip?.itinerary}
+      initialKind={session.trip?.kind}
+      initialTravelers={session.trip?.travelers}
+      initialExpenses={session.trip?.expenses}
+      initialMembers={session.trip?.members}
+      onTripSaved={handleTripSaved}
+    >
+      {loadError && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-60 bg-red-50 border border-red-200 text-red-600 text-xs px-3 py-1 rounded">
+          {loadError}
+        </div>
+      )}
+      <div className="flex flex-col h-screen lg:flex-row">
+        <div className="lg:w-[30%] hidden lg:block rounded-tr-lg rounded-br-lg">
+          <ChatBox />
+        </div>
+        <div className="flex-1 p-3 h-full">
+          <MapView />
+        </div>
+        <div className="lg:w-[30%] lg:hidden lg:static lg:h-full absolute bottom-0 h-72 md:h-96  block p-3 w-full">
+          <ChatBox />
+        </div>
       </div>
-    </div>
+    </TripProvider>
   );
 };
 
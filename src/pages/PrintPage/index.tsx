@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation, useSearchParams } from "react-router-dom";
+import { Printer } from "lucide-react";
+import { useCurrency } from "../../hooks/useCurrency";
+import {
+  formatBudgetLines,
+  formatMoney,
+  hasCoords,
+  normalizeCoords,
+  summarizeBudget,
+  type MapPoint,
+} from "../../itinerary";
+import {
+  fetchRoute,
+  formatDistance,
+  formatDuration,
+  type RouteResult,
+} from "../../services/routing";
+import { decodeSharedTrip, type SharedTrip } from "../../services/share";
+import { getTrip } from "../../services/trips";
+import {
+  fetchWeather,
+  weatherIconUrl,
+  type Weather,
+} from "../../services/weather";
+import { isWebUrl } from "../../utils/text";
+import { captureDaySnapshots, type SnapshotDay } from "./snapshot";
+
+type PrintStop = MapPoint & { coords: [number, number] | null };
+
+// /print?trip=<saved id> or /print#<encoded trip>: an A4 handout, one day per page
+const PrintPage = () => {
+  const [params] = useSearchParams();
+  const tripId = params.get("trip");
+  const encoded = useLocation().hash.replace(/^#/, "");
+
+  const [trip, setTrip] = useState<SharedTrip | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [routes, setRoutes] = useState(new Map<number, RouteResult>());
+  const [snapshots, setSnapshots] = useState(new Map<number, string>());
+  const [weather, setWeather] = useState(new Map<string, Weather>());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = tripId
+      ? getTrip(tripId).then((t) => {
+          if (!t) throw new Error("Trip not found");
+          return { title: t.title, itinerary: t.itinerary, travelers: t.travelers };
+        })
+      : decodeSharedTrip(encoded);
+    load
+      .then((t) => !cancelled && setTrip(t))
+      .catch((e) => {
+        if (cancelled) return;
+        console.warn("Loading trip for print failed", e);
+        setError("Không thể mở chuyến đi để in.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId, encoded]);
+
+  const days = useMemo(() => {
+    const m = new Map<number, PrintStop[]>();
+    for (const p of trip?.itinerary ?? []) {
+      const { lat, lng } = normalizeCoords(p.lat, p.lng);
+      const coords: [number, number] | null = hasCoords(lat, lng) ? [lng, lat] : null;
+      m.set(p.day, [...(m.get(p.day) ?? []), { ...p, coords }]);
+    }
+    return new Map([...m].sort(([a], [b]) => a - b));
+  }, [trip]);
+
+  const { convert, formatConverted } = useCurrency();
+  const budget = useMemo(
+    () => summarizeBudget(trip?.itinerary ?? [], trip?.travelers, convert),
+    [trip, convert]
+  );
+  const convertedTotal = formatConverted(budget.trip.total, budget.currency);
+
+  // routes, then map snapshots (they draw the routes), weather alongside
+  useEffect(() => {
+    if (days.size === 0) return;
+    let cancelled = false;
+    const snapshotDays: SnapshotDay[] = [...days].map(([day, stops]) => ({
+      day,
+      coords: stops.flatMap((s) => (s.coords ? [s.coords] : [])),
+      // same numbering as the list below
+      numbers: stops.flatMap((s, i) => (s.coords ? [i + 1] : [])),
+    }));
+    setProgress({ done: 0, total: snapshotDays.length });
+
+    (async () => {
+      const found = new Map<number, RouteResult>();
+      for (const d of snapshotDays) {
+        try {
+          const route = await fetchRoute(d.coords);
+          if (route) {
+            found.set(d.day, route);
+            d.route = route.geometry;
+          }
+        } catch (e) {
+          console.warn(`Routing day ${d.day} failed`, e);
+        }
+      }
+      if (cancelled) return;
+      setRoutes(found);
+      try {
+        const shots = await captureDaySnapshots(snapshotDays, (done) => {
+          if (!cancelled) setProgress({ done, total: snapshotDays.length });
+        });
+        if (!cancelled) setSnapshots(shots);
+      } catch (e) {
+        console.warn("Map snapshots failed", e);
+      } finally {
+        if (!cancelled) setProgress(null);
+      }
+    })();
+
+    (async () => {
+      for (const stops of days.values()) {
+        for (const s of stops) {
+          if (!s.coords || cancelled) continue;
+          const w = await fetchWeather(s.coords[1], s.coords[0]);
+          if (w && !cancelled) {
+            setWeather((prev) => new Map(prev).set(s.coords!.join(","), w));
+          }
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  if (error) {
+    return (
+      <div className="flex h-screen items-center justify-center text-sm text-gray-600">
+        {error}
+      </div>
+    );
+  }
+  if (!trip) {
+    return (
+      <div className="flex h-screen items-center justify-center text-sm text-gray-600">
+        Đang mở chuyến đi...
+      </div>
+    );
+  }
+
+  return (
+    <div className="print-page bg-white text-[#110a03] font-public-sans">
+      <style>{`
+        @page { size: A4; margin: 12mm; }
+        @media print {
+          .print-page { font-size: 11pt; }
+          .print-day { break-before: page; }
+          .print-day:first-of-type { break-before: auto; }
+          .print-stop, .print-map { break-inside: avoid; }
+          a { color: inherit; }
+        }
+      `}</style>
+
+      <div className="print:hidden sticky top-0 z-10 flex items-center justify-between gap-2 px-4 py-2 bg-[#eee3d7] border-b border-[#e5cbaf] text-sm">
+        <span className="text-gray-600">
+          {progress
+            ? `Đang chuẩn bị bản đồ (${progress.done}/${progress.total})...`
+            : "Sẵn sàng để in (A4)."}
+        </span>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="flex items-center gap-1 bg-[#004d00] hover:bg-[#004d00]/80 text-white px-3 py-1.5 rounded-full cursor-pointer"
+        >
+          <Printer size={14} /> In / Lưu PDF
+        </button>
+      </div>
+
+      <div className="max-w-[190mm] mx-auto p-4 print:p-0">
+        <h1 className="text-2xl font-bold mb-1">{trip.title || "Hành trình"}</h1>
+        <div className="text-sm text-gray-600 mb-4">
+          {days.size} ngày • {trip.itinerary.length} điểm đến
+          {budget.trip.total > 0 && (
+            <>
+              {" "}
+              • Ngân sách {formatMoney(budget.trip.total, budget.currency)}
+              {convertedTotal && ` (${convertedTotal}, quy đổi)`}
+              {budget.travelers > 1 &&
+                ` (${budget.travelers} người, ${formatMoney(
+                  budget.trip.total / budget.travelers,
+                  budget.currency
+                )}/người)`}
+            </>
+          )}
+        </div>
+
+        {[...days].map(([day, stops]) => {
+          const dayTotal = budget.days.get(day)?.total ?? 0;
+          const dayLines = formatBudgetLines(stops[0]?.dayBudget);
+          const route = routes.get(day);
+          const shot = snapshots.get(day);
+          return (
+            <section key={day} className="print-day mb-8">
+              <div className="flex items-baseline justify-between gap-2 border-b-2 border-[#004d00] pb-1 mb-2">
+                <h2 className="text-xl font-semibold">Ngày {day}</h2>
+                <div className="text-sm text-gray-600 text-right">
+                  {dayTotal > 0 && (
+                    <div>
+                      Ngân sách ngày: {formatMoney(dayTotal, budget.currency)}
+                    </div>
+                  )}
+                  {dayLines && <div className="text-xs">{dayLines}</div>}
+                  {route && (
+                    <div>
+                      {formatDistance(route.distance)} •{" "}
+                      {formatDuration(route.duration)} di chuyển
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {shot && (
+                <img
+                  src={shot}
+                  alt={`Bản đồ ngày ${day}`}
+                  className="print-map w-full border border-[#e5cbaf] rounded mb-3"
+                />
+              )}
+
+              <ol className="space-y-2">
+                {stops.map((s, i) => {
+                  const w = s.coords ? weather.get(s.coords.join(",")) : undefined;
+                  return (
+                    <li key={i} className="print-stop flex gap-3">
+                      <div className="shrink-0 w-6 h-6 rounded-full bg-[#004d00] text-white text-xs flex items-center justify-center">
+                        {i + 1}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium">
+                          {s.time && (
+                            <span className="mr-1 text-[#004d00]">{s.time}</span>
+                          )}
+                          {s.name}
+                        </div>
+                        {s.desc && (
+                          <div className="text-sm text-gray-700">{s.desc}</div>
+                        )}
+                        {s.budget && (
+                          <div className="text-xs text-gray-600">
+                            {formatBudgetLines(s.budget)}
+                          </div>
+                        )}
+                        {s.source && isWebUrl(s.source) && (
+                          <div className="text-xs text-gray-500 break-all">
+                            Nguồn: <a href={s.source}>{s.source}</a>
+                          </div>
+                        )}
+                        {route?.legs &&
+                          (() => {
+                            // leg after this stop, counting only stops with coordinates
+                            const k = stops
+                              .slice(0, i + 1)
+                              .filter((x) => x.coords).length - 1;
+                            const leg = s.coords ? route.legs[k] : undefined;
+                            return leg ? (
+                              <div className="text-xs text-[#004d00]">
+                                → {formatDistance(leg.distance)} •{" "}
+                                {formatDuration(leg.duration)} đến điểm tiếp theo
+                              </div>
+                            ) : null;
+                          })()}
+                      </div>
+                      {w && (
+                        <div className="shrink-0 flex items-center gap-1 text-xs text-gray-600">
+                          {w.icon && (
+                            <img
+                              src={weatherIconUrl(w.icon)}
+                              alt={w.description}
+                              className="w-8 h-8"
+                            />
+                          )}
+                          <div>
+                            <div>{Math.round(w.tempC)}°C</div>
+                            <div>{w.description}</div>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PrintPage;
@@ -0,0 +1,111 @@
+import mapboxgl from "mapbox-gl";
+
+mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN as string;
+
+export type SnapshotDay = {
+  day: number;
+  // [lng, lat] of the day's stops that have coordinates, in order
+  coords: [number, number][];
+  // each of those stops' number in the printed list, which also counts stops without coordinates
+  numbers: number[];
+  route?: GeoJSON.LineString;
+};
+
+const SNAPSHOT_WIDTH = 1000;
+const SNAPSHOT_HEIGHT = 600;
+// give up on a day whose tiles never settle and print it without a map
+const IDLE_TIMEOUT_MS = 15_000;
+
+const waitFor = (map: mapboxgl.Map, event: "load" | "idle") =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, IDLE_TIMEOUT_MS);
+    map.once(event, () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+const EMPTY: GeoJSON.FeatureCollection = { type: "FeatureCollection", features: [] };
+
+// render each day on one offscreen map and read the canvas back as a PNG data URL;
+// stops are drawn as layers (DOM markers never reach the canvas)
+export const captureDaySnapshots = async (
+  days: SnapshotDay[],
+  onProgress?: (done: number) => void
+): Promise<Map<number, string>> => {
+  const out = new Map<number, string>();
+  const container = document.createElement("div");
+  container.style.cssText = `position:fixed;left:-${SNAPSHOT_WIDTH * 2}px;top:0;width:${SNAPSHOT_WIDTH}px;height:${SNAPSHOT_HEIGHT}px;`;
+  document.body.appendChild(container);
+  const map = new mapboxgl.Map({
+    container,
+    style: "mapbox://styles/mapbox/streets-v12",
+    center: [108.2772, 14.0583],
+    zoom: 5,
+    interactive: false,
+    attributionControl: false,
+    preserveDrawingBuffer: true,
+  });
+
+  try {
+    await waitFor(map, "load");
+    map.addSource("print-route", { type: "geojson", data: EMPTY });
+    map.addSource("print-stops", { type: "geojson", data: EMPTY });
+    map.addLayer({
+      id: "print-route-line",
+      type: "line",
+      source: "print-route",
+      layout: { "line-join": "round", "line-cap": "round" },
+      paint: { "line-color": "#004d00", "line-width": 4, "line-opacity": 0.7 },
+    });
+    map.addLayer({
+      id: "print-stops-circle",
+      type: "circle",
+      source: "print-stops",
+      paint: {
+        "circle-radius": 10,
+        "circle-color": "#004d00",
+        "circle-stroke-color": "#ffffff",
+        "circle-stroke-width": 2,
+      },
+    });
+    map.addLayer({
+      id: "print-stops-label",
+      type: "symbol",
+      source: "print-stops",
+      layout: {
+        "text-field": ["get", "label"],
+        "text-size": 12,
+        "text-allow-overlap": true,
+      },
+      paint: { "text-color": "#ffffff" },
+    });
+
+    for (let i = 0; i < days.length; i++) {
+      const { day, coords, numbers, route } = days[i];
+      if (coords.length === 0) continue;
+      (map.getSource("print-stops") as mapboxgl.GeoJSONSource).setData({
+        type: "FeatureCollection",
+        features: coords.map((c, idx) => ({
+          type: "Feature",
+          properties: { label: String(numbers[idx]) },
+          geometry: { type: "Point", coordinates: c },
+        })),
+      });
+      (map.getSource("print-route") as mapboxgl.GeoJSONSource).setData(
+        route ? { type: "Feature", properties: {}, geometry: route } : EMPTY
+      );
+      const bounds = new mapboxgl.LngLatBounds(coords[0], coords[0]);
+      coords.forEach((c) => bounds.extend(c));
+      route?.coordinates.forEach((c) => bounds.extend(c as [number, number]));
+      map.fitBounds(bounds, { padding: 60, maxZoom: 14, animate: false });
+      await waitFor(map, "idle");
+      out.set(day, map.getCanvas().toDataURL("image/png"));
+      onProgress?.(i + 1);
+    }
+  } finally {
+    map.remove();
+    container.remove();
+  }
+  return out;
+};
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { Eye, MapPin, Plus } from "lucide-react";
+import MapView from "../../components/Map/MapView";
+import TripProvider from "../../context/TripProvider";
+import {
+  decodeSharedTrip,
+  fetchSharedTrip,
+  type SharedTrip,
+} from "../../services/share";
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; trip: SharedTrip };
+
+// read-only trip: /trip/:id is a snapshot stored by /api/share,
+// /trip#<data> carries the whole trip in the URL and needs no backend
+const SharedTripPage = () => {
+  const { id } = useParams();
+  const { hash } = useLocation();
+  const encoded = hash.replace(/^#/, "");
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    const load = id
+      ? fetchSharedTrip(id)
+      : encoded
+        ? decodeSharedTrip(encoded)
+        : Promise.reject(new Error("Missing trip data"));
+    load
+      .then((trip) => {
+        if (!cancelled) setState({ status: "ready", trip });
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.warn("Opening shared trip failed", e);
+        setState({
+          status: "error",
+          message: "Không thể mở chuyến đi được chia sẻ.",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, encoded]);
+
+  if (state.status !== "ready") {
+    return (
+      <div className="flex flex-col gap-3 h-screen items-center justify-center text-sm text-gray-600">
+        {state.status === "loading" ? "Đang mở chuyến đi..." : state.message}
+        {state.status === "error" && (
+          <Link to="/" className="text-[#004d00] underline">
+            Lên kế hoạch chuyến đi mới
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  const { trip } = state;
+  return (
+    <TripProvider
+      key={id ?? encoded}
+      title={trip.title}
+      initialItinerary={trip.itinerary}
+      initialKind={trip.kind}
+      initialTravelers={trip.travelers}
+      persist={false}
+      readOnly
+    >
+      <div className="flex flex-col h-screen bg-[#eee3d7] font-public-sans text-[#110a03]">
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-[#e5cbaf]">
+          <div className="flex items-center gap-2 min-w-0">
+            <MapPin
+              className="bg-[#004d00] p-1.5 rounded-md shrink-0"
+              color="white"
+              size={28}
+            />
+            <div className="font-semibold truncate">
+              {trip.title || "Chuyến đi"}
+            </div>
+            <span className="flex items-center gap-1 text-xs text-gray-500 shrink-0">
+              <Eye size={12} /> Chỉ xem
+            </span>
+          </div>
+          <Link
+            to="/"
+            className="flex items-center gap-1 bg-[#004d00] hover:bg-[#004d00]/80 text-white text-xs px-3 py-1.5 rounded-full shrink-0"
+          >
+            <Plus size={14} /> Lên kế hoạch của bạn
+          </Link>
+        </div>
+        <div className="flex-1 p-3 min-h-0">
+          <MapView />
+        </div>
+      </div>
+    </TripProvider>
+  );
+};
+
+export default SharedTripPage;
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Copy, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  deleteTrip,
+  duplicateTrip,
+  listTrips,
+  renameTrip,
+  type SavedTrip,
+} from "../../services/trips";
+
+const formatDate = (t: number) =>
+  new Intl.DateTimeFormat("vi-VN", {
+    dateStyle: "short",
+    timeStyle: "short",
+  }).format(t);
+
+const TripsPage = () => {
+  const navigate = useNavigate();
+  const [trips, setTrips] = useState<SavedTrip[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(
+    null
+  );
+
+  const refresh = () =>
+    listTrips()
+      .then(setTrips)
+      .catch((e) => {
+        console.warn("Listing trips failed", e);
+        setError("Không thể đọc danh sách chuyến đi đã lưu.");
+        setTrips([]);
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // run a library change, then re-read the list; a failing store is reported, not thrown
+  const update = async (change: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      await change();
+    } catch (e) {
+      console.warn(failure, e);
+      setError(`${failure}.`);
+    }
+    refresh();
+  };
+
+  const commitRename = async () => {
+    if (!editing) return;
+    const { id, title } = editing;
+    setEditing(null);
+    await update(() => renameTrip(id, title), "Không thể đổi tên chuyến đi");
+  };
+
+  const handleDuplicate = (id: string) =>
+    update(() => duplicateTrip(id), "Không thể nhân bản chuyến đi");
+
+  const handleDelete = async (trip: SavedTrip) => {
+    if (!window.confirm(`Xóa chuyến đi "${trip.title}"?`)) return;
+    await update(() => deleteTrip(trip.id), "Không thể xóa chuyến đi");
+  };
+
+  return (
+    <div className="min-h-screen bg-[#eee3d7] font-public-sans text-[#110a03]">
+      <div className="max-w-3xl mx-auto p-4">
+        <div className="flex items-center justify-between gap-2 border-b border-[#e5cbaf] pb-3">
+          <div className="flex items-center gap-2 font-bold text-2xl">
+            <MapPin
+              className="bg-[#004d00] p-2 rounded-md"
+              color="white"
+              size={36}
+            />
+            Chuyến đi đã lưu
+          </div>
+          <Link
+            to="/"
+            className="flex items-center gap-1 bg-[#004d00] hover:bg-[#004d00]/80 text-white text-sm px-3 py-2 rounded-full"
+          >
+            <Plus size={16} /> Chuyến đi mới
+          </Link>
+        </div>
+
+        {error && <div className="mt-3 text-red-500 text-sm">{error}</div>}
+
+        {trips === null ? (
+          <div className="mt-6 text-sm text-gray-600">Đang tải...</div>
+        ) : trips.length === 0 ? (
+          <div className="mt-6 text-sm text-gray-600">
+            Chưa có chuyến đi nào. Hãy hỏi trợ lý về một hành trình để bắt đầu!
+          </div>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {trips.map((trip) => {
+              const days = new Set(trip.itinerary.map((p) => p.day)).size;
+              return (
+                <li
+                  key={trip.id}
+                  className="p-3 bg-white/50 border border-[#e5cbaf] rounded-lg flex items-start justify-between gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    {editing?.id === trip.id ? (
+                      <input
+                        autoFocus
+                        value={editing.title}
+                        onChange={(e) =>
+                          setEditing({ id: trip.id, title: e.target.value })
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setEditing(null);
+                        }}
+                        onBlur={commitRename}
+                        className="w-full border border-[#e5cbaf] rounded px-2 py-1 text-sm focus:outline-0"
+                      />
+                    ) : (
+                      <button
+                        className="font-semibold text-left truncate w-full cursor-pointer hover:underline"
+                        onClick={() => navigate(`/?trip=${trip.id}`)}
+                      >
+                        {trip.title}
+                      </button>
+                    )}
+                    <div className="text-xs text-gray-500 mt-1">
+                      {days > 0
+                        ? `${days} ngày • ${trip.itinerary.length} điểm`
+                        : "Chưa có hành trình"}{" "}
+                      • {trip.messages.length} tin nhắn • Cập nhật{" "}
+                      {formatDate(trip.updatedAt)}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      title="Đổi tên"
+                      className="p-2 rounded hover:bg-[#e5cbaf]/60 cursor-pointer"
+                      onClick={() =>
+                        setEditing({ id: trip.id, title: trip.title })
+                      }
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      title="Nhân bản"
+                      className="p-2 rounded hover:bg-[#e5cbaf]/60 cursor-pointer"
+                      onClick={() => handleDuplicate(trip.id)}
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      title="Xóa"
+                      className="p-2 rounded hover:bg-red-100 text-red-600 cursor-pointer"
+                      onClick={() => handleDelete(trip)}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TripsPage;
@@ -3,6 +3,9 @@ import { Route, type RouteObject } from "react-router-dom";
 
 
 const HomePage = React.lazy(() => import("../pages/HomePage"));
+const TripsPage = React.lazy(() => import("../pages/TripsPage"));
+const SharedTripPage = React.lazy(() => import("../pages/SharedTripPage"));
+const PrintPage = React.lazy(() => import("../pages/PrintPage"));
 
 const withSuspense = (Component: React.LazyExoticComponent<React.FC>) => {
   return (
@@ -16,6 +19,22 @@ export const routes: RouteObject[] = [
     {
         path: "/",
         element: withSuspense(HomePage),
+    },
+    {
+        path: "/trips",
+        element: withSuspense(TripsPage),
+    },
+    {
+        path: "/trip",
+        element: withSuspense(SharedTripPage),
+    },
+    {
+        path: "/trip/:id",
+        element: withSuspense(SharedTripPage),
+    },
+    {
+        path: "/print",
+        element: withSuspense(PrintPage),
     }
 ]
 
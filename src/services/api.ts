@@ -0,0 +1,29 @@
+// base URL of the /api proxy in server/; empty means same origin (the Vite dev server mounts it)
+const API_BASE_URL = String(import.meta.env.VITE_API_BASE_URL ?? "").replace(
+  /\/+$/,
+  ""
+);
+
+export const apiUrl = (
+  path: string,
+  params: Record<string, string | number | undefined> = {}
+): string => {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (v !== undefined) qs.set(k, String(v));
+  }
+  const query = qs.toString();
+  return `${API_BASE_URL}${path}${query ? `?${query}` : ""}`;
+};
+
+// pull the proxy's { error } message out of a failed response, falling back to the raw text
+export const readApiError = async (res: Response): Promise<string> => {
+  const txt = await res.text().catch(() => "");
+  try {
+    const parsed = JSON.parse(txt);
+    if (parsed && typeof parsed.error === "string") return parsed.error;
+  } catch {
+    // not JSON
+  }
+  return txt;
+};
@@ -0,0 +1,202 @@
+import { lookupPlaceNear, type GazetteerKind } from "../gazetteer";
+import { distanceMeters } from "../utils/geo";
+import { foldDiacritics } from "../utils/text";
+import { promisifyRequest, STORES, withStore } from "./db";
+import {
+  fetchNominatimDetails,
+  resultBBox,
+  resultCoords,
+  searchNominatim,
+  type NominatimResult,
+  type RequestPriority,
+} from "./nominatim";
+
+// hits requested per name; many Vietnamese places share one ("Chùa Cầu", "Núi Bà")
+const CANDIDATE_LIMIT = 5;
+// hits further apart than this are different places, not one place's parts
+export const DISTINCT_PLACE_M = 20000;
+
+type Located = { name: string; lat: number; lng: number };
+
+const candidatesByName = new Map<string, Promise<NominatimResult[]>>();
+
+// Nominatim hits for a place name, shared by boundary lookups, coordinate checks and the
+// disambiguation picker. Failed lookups are not cached; the request is shared, so it is not
+// tied to any one caller's AbortSignal.
+export const findCandidates = (
+  name: string,
+  priority: RequestPriority = "high"
+): Promise<NominatimResult[]> => {
+  const key = foldDiacritics(name);
+  const cached = candidatesByName.get(key);
+  if (cached) return cached;
+  const pending = searchNominatim(name, { limit: CANDIDATE_LIMIT, priority });
+  candidatesByName.set(key, pending);
+  pending.catch(() => candidatesByName.delete(key));
+  return pending;
+};
+
+const isArea = (g?: GeoJSON.Geometry): g is GeoJSON.Polygon | GeoJSON.MultiPolygon =>
+  g?.type === "Polygon" || g?.type === "MultiPolygon";
+
+const distanceTo = (r: NominatimResult, at: [number, number]) => {
+  const c = resultCoords(r);
+  return c ? distanceMeters(at, [c.lng, c.lat]) : Infinity;
+};
+
+// hits more than DISTINCT_PLACE_M apart: the name is ambiguous
+export const candidatesFarApart = (results: NominatimResult[]) => {
+  const coords = results.map(resultCoords).filter((c) => c !== null);
+  return coords.some((a, i) =>
+    coords
+      .slice(i + 1)
+      .some((b) => distanceMeters([a.lng, a.lat], [b.lng, b.lat]) > DISTINCT_PLACE_M)
+  );
+};
+
+// hits for the same place as the stop: those near the one closest to its coordinates
+const candidatesNear = (results: NominatimResult[], at: [number, number]) => {
+  if (!candidatesFarApart(results)) return results;
+  const nearest = results.reduce((a, b) => (distanceTo(b, at) < distanceTo(a, at) ? b : a));
+  const c = resultCoords(nearest);
+  if (!c) return results;
+  return results.filter((r) => distanceTo(r, [c.lng, c.lat]) <= DISTINCT_PLACE_M);
+};
+
+// outline of a stop: a polygon from search or details, else the hit's bounding box.
+// With same-named places far apart, only the hits near the stop's coordinates count.
+// Throws when Nominatim is unreachable.
+const fetchBoundary = async (
+  p: Located,
+  priority: RequestPriority
+): Promise<GeoJSON.Geometry | null> => {
+  const results = candidatesNear(await findCandidates(p.name, priority), [p.lng, p.lat]);
+  if (results.length === 0) return null;
+
+  // Prefer results that include polygon geojson first
+  let candidate = results.find((r) => isArea(r.geojson));
+
+  // If none has polygon, prefer entries whose class indicates a place-area (tourism, natural, landuse, leisure, historic)
+  if (!candidate) {
+    const preferred = ["tourism", "natural", "landuse", "leisure", "historic"];
+    candidate = results.find(
+      (r) => r.class !== undefined && preferred.includes(String(r.class))
+    );
+  }
+
+  // As further fallback pick the result with largest bounding box area (more likely to be the area, not a single POI)
+  if (!candidate) {
+    let best: NominatimResult | null = null;
+    let bestArea = 0;
+    for (const a of results) {
+      const bb = resultBBox(a);
+      if (!bb) continue;
+      const area = Math.abs((bb[2] - bb[0]) * (bb[3] - bb[1]));
+      if (area > bestArea) {
+        bestArea = area;
+        best = a;
+      }
+    }
+    candidate = best ?? results[0];
+  }
+
+  if (isArea(candidate.geojson)) return candidate.geojson;
+
+  // Try details lookup for the chosen candidate (using its osm_type/osm_id) to retrieve polygon geometry
+  const details = await fetchNominatimDetails(candidate, { priority });
+  if (isArea(details?.geojson)) return details.geojson;
+  if (isArea(details?.polygon_geojson)) return details.polygon_geojson;
+
+  const bb = resultBBox(candidate);
+  if (!bb) return null;
+  const [minLng, minLat, maxLng, maxLat] = bb;
+  return {
+    type: "Polygon",
+    coordinates: [
+      [
+        [minLng, minLat],
+        [maxLng, minLat],
+        [maxLng, maxLat],
+        [minLng, maxLat],
+        [minLng, minLat],
+      ],
+    ],
+  };
+};
+
+// outlines change rarely; a miss is retried sooner in case OSM gained the place
+const FOUND_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MISSING_TTL_MS = 24 * 60 * 60 * 1000;
+
+type CachedBoundary = {
+  key: string;
+  geometry: GeoJSON.Geometry | null;
+  savedAt: number;
+};
+
+export const boundaryKey = (p: Located) =>
+  `${foldDiacritics(p.name)}|${p.lat.toFixed(4)}|${p.lng.toFixed(4)}`;
+
+// undefined = not cached (or expired, or IndexedDB unavailable)
+const readCachedBoundary = async (key: string) => {
+  try {
+    const entry = await withStore(STORES.boundaries, "readonly", (s) =>
+      promisifyRequest(s.get(key) as IDBRequest<CachedBoundary | undefined>)
+    );
+    if (!entry) return undefined;
+    const ttl = entry.geometry ? FOUND_TTL_MS : MISSING_TTL_MS;
+    return Date.now() - entry.savedAt < ttl ? entry.geometry : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeCachedBoundary = (key: string, geometry: GeoJSON.Geometry | null) =>
+  withStore(STORES.boundaries, "readwrite", (s) =>
+    promisifyRequest(s.put({ key, geometry, savedAt: Date.now() } satisfies CachedBoundary))
+  ).catch((e) => console.warn("Caching boundary failed", e));
+
+// this session's lookups, including those still in flight
+const boundaries = new Map<string, Promise<GeoJSON.Geometry | null>>();
+
+// the bundled gazetteer's outline for this stop, if it knows the place
+const bundledEntry = (p: Located) => lookupPlaceNear(p.name, [p.lng, p.lat]);
+const bundledOutline = (p: Located) => bundledEntry(p)?.outline ?? null;
+
+// provinces and cities are drawn from the bundled gazetteer without asking anyone
+const BUNDLED_FIRST = new Set<GazetteerKind>(["province", "province-2025", "city"]);
+
+// outline of a stop: the bundled one for provinces and cities, else from memory, IndexedDB or
+// Nominatim, falling back to the bundled landmark circle when none of them has one; null when
+// nothing is known (unavailability is not cached)
+export const getBoundary = (
+  p: Located,
+  priority: RequestPriority = "high"
+): Promise<GeoJSON.Geometry | null> => {
+  const entry = bundledEntry(p);
+  if (entry && BUNDLED_FIRST.has(entry.kind)) return Promise.resolve(entry.outline);
+  const key = boundaryKey(p);
+  const known = boundaries.get(key);
+  if (known) return known;
+  const pending = (async () => {
+    const cached = await readCachedBoundary(key);
+    if (cached !== undefined) return cached ?? bundledOutline(p);
+    const geometry = await fetchBoundary(p, priority);
+    void writeCachedBoundary(key, geometry);
+    return geometry ?? bundledOutline(p);
+  })().catch((e) => {
+    console.warn("Boundary fetch failed for", p.name, e);
+    boundaries.delete(key);
+    return bundledOutline(p);
+  });
+  boundaries.set(key, pending);
+  return pending;
+};
+
+// warm the cache for every stop, one at a time behind anything the user is waiting for
+export const prefetchBoundaries = async (stops: Located[], signal: AbortSignal) => {
+  for (const p of stops) {
+    if (signal.aborted) return;
+    await getBoundary(p, "low");
+  }
+};
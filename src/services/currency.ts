@@ -0,0 +1,129 @@
+// display-currency conversion. Rates are "units per 1 base"; a bundled table works offline and
+// VITE_RATES_URL can point at any endpoint returning { base | base_code, rates } to refresh it
+export const DISPLAY_CURRENCIES = ["VND", "USD", "EUR", "KRW", "JPY"] as const;
+
+export type RateTable = {
+  base: string;
+  rates: Record<string, number>;
+  // when the table was published (ISO date) and where it came from
+  asOf: string;
+  source: "bundled" | "remote";
+  fetchedAt?: number;
+};
+
+// reference rates shipped with the app; only used until a refresh succeeds
+export const BUNDLED_RATES: RateTable = {
+  base: "USD",
+  rates: { USD: 1, VND: 26300, EUR: 0.86, KRW: 1420, JPY: 151 },
+  asOf: "2026-10-01",
+  source: "bundled",
+};
+
+const RATES_URL = String(import.meta.env.VITE_RATES_URL ?? "");
+export const canRefreshRates = RATES_URL.length > 0;
+
+// refreshed tables older than this are fetched again
+const RATES_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const STORAGE_KEY = "vietnam-journey-bot:currency";
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  table: RateTable
+): number | null => {
+  if (from === to) return amount;
+  const a = table.rates[from];
+  const b = table.rates[to];
+  if (!a || !b) return null;
+  return (amount / a) * b;
+};
+
+export const fetchRates = async (): Promise<RateTable> => {
+  const res = await fetch(RATES_URL);
+  if (!res.ok) throw new Error(`Rates request failed: ${res.status}`);
+  const data = await res.json();
+  const base = String(data?.base ?? data?.base_code ?? "").toUpperCase();
+  const rates = data?.rates;
+  if (!base || !rates || typeof rates !== "object") {
+    throw new Error("Unexpected rates response");
+  }
+  const clean: Record<string, number> = { [base]: 1 };
+  for (const [k, v] of Object.entries(rates)) {
+    if (typeof v === "number" && v > 0) clean[k.toUpperCase()] = v;
+  }
+  const now = Date.now();
+  const published = new Date(data?.date ?? data?.time_last_update_utc ?? now);
+  return {
+    base,
+    rates: clean,
+    asOf: (isNaN(published.getTime()) ? new Date(now) : published)
+      .toISOString()
+      .slice(0, 10),
+    source: "remote",
+    fetchedAt: now,
+  };
+};
+
+export const ratesAreStale = (table: RateTable) =>
+  canRefreshRates &&
+  (table.source === "bundled" ||
+    !table.fetchedAt ||
+    Date.now() - table.fetchedAt > RATES_MAX_AGE_MS);
+
+// chosen display currency and the latest rate table, kept in localStorage
+export type CurrencySettings = { display: string; rates: RateTable };
+
+const load = (): CurrencySettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (saved && typeof saved.display === "string") {
+      return {
+        display: saved.display,
+        rates: saved.rates?.rates ? saved.rates : BUNDLED_RATES,
+      };
+    }
+  } catch {
+    // unreadable settings: start over
+  }
+  return { display: "VND", rates: BUNDLED_RATES };
+};
+
+let settings: CurrencySettings | null = null;
+const listeners = new Set<() => void>();
+// every budget view asks for stale rates on mount; they share one request
+let refreshing: Promise<void> | null = null;
+
+const update = (next: CurrencySettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // storage full or disabled: keep the settings for this session only
+  }
+  listeners.forEach((l) => l());
+};
+
+export const currencyStore = {
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+  getSnapshot(): CurrencySettings {
+    if (!settings) settings = load();
+    return settings;
+  },
+  setDisplay(display: string) {
+    update({ ...currencyStore.getSnapshot(), display });
+  },
+  refresh(): Promise<void> {
+    refreshing ??= fetchRates()
+      .then((rates) => update({ ...currencyStore.getSnapshot(), rates }))
+      .finally(() => {
+        refreshing = null;
+      });
+    return refreshing;
+  },
+};
@@ -0,0 +1,65 @@
+// thin promise wrapper over the app's IndexedDB database
+const DB_NAME = "vietnam-journey-bot";
+const DB_VERSION = 2;
+
+export const STORES = {
+  trips: "trips",
+  // place outlines from Nominatim, keyed by normalized name + coordinates
+  boundaries: "boundaries",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORES.trips)) {
+        const trips = db.createObjectStore(STORES.trips, { keyPath: "id" });
+        trips.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(STORES.boundaries)) {
+        db.createObjectStore(STORES.boundaries, { keyPath: "key" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // allow a retry after a failed open (e.g. private mode quota errors)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// run fn inside a transaction on one store and resolve with its result once the transaction commits
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(store, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+  const result = await fn(tx.objectStore(store));
+  await done;
+  return result;
+};
@@ -0,0 +1,71 @@
+import { lookupPlace, lookupPlaceNear } from "../gazetteer";
+import type { MapPoint } from "../itinerary";
+import { bboxContains, distanceMeters } from "../utils/geo";
+import { foldDiacritics } from "../utils/text";
+import { findCandidates } from "./boundary";
+import { resultBBox, resultCoords } from "./nominatim";
+
+// AI coordinates further than this from every geocoder match are flagged
+export const VERIFY_THRESHOLD_M = 5000;
+
+export type PlaceCheck =
+  | { status: "ok" }
+  // the geocoder knows no such place; nothing to compare against
+  | { status: "unknown" }
+  | {
+      status: "mismatch";
+      // best geocoder match and how far the stop is from it
+      lat: number;
+      lng: number;
+      distance: number;
+      label: string;
+    };
+
+// one check per place name + coordinates
+export const placeCheckKey = (p: Pick<MapPoint, "name" | "lat" | "lng">) =>
+  `${foldDiacritics(p.name)}|${p.lat.toFixed(5)}|${p.lng.toFixed(5)}`;
+
+// cross-check a stop's coordinates against the bundled gazetteer, then Nominatim. The stop
+// passes when it lies within VERIFY_THRESHOLD_M of (or inside the bounding box of) any
+// candidate; otherwise the top-ranked candidate is offered as the verified position. Runs as
+// background work behind the map's own lookups; throws when Nominatim is unreachable and the
+// gazetteer doesn't know the name either.
+export const verifyPlace = async (
+  p: Pick<MapPoint, "name" | "lat" | "lng">
+): Promise<PlaceCheck> => {
+  const at: [number, number] = [p.lng, p.lat];
+  if (lookupPlaceNear(p.name, at, VERIFY_THRESHOLD_M)) return { status: "ok" };
+
+  // every candidate is compared, so a same-named place elsewhere doesn't hide a correct match
+  let results;
+  try {
+    results = await findCandidates(p.name, "low");
+  } catch (e) {
+    // offline: the bundled place of that name is still worth offering
+    const known = lookupPlace(p.name);
+    if (!known) throw e;
+    const [lng, lat] = known.center;
+    return {
+      status: "mismatch",
+      lat,
+      lng,
+      label: known.name,
+      distance: distanceMeters(at, known.center),
+    };
+  }
+  let best: { lat: number; lng: number; label: string } | null = null;
+  for (const r of results) {
+    const c = resultCoords(r);
+    if (!c) continue;
+    const bb = resultBBox(r);
+    if (bb && bboxContains(bb, at)) return { status: "ok" };
+    if (distanceMeters(at, [c.lng, c.lat]) <= VERIFY_THRESHOLD_M) return { status: "ok" };
+    best ??= { ...c, label: r.display_name ?? r.name ?? p.name };
+  }
+  if (!best) return { status: "unknown" };
+  return {
+    status: "mismatch",
+    ...best,
+    distance: distanceMeters(at, [best.lng, best.lat]),
+  };
+};
@@ -0,0 +1,101 @@
+export function extractJsonFromText(rawText: string): { text: string; jsonData: unknown } {
+  // --- Robust JSON extraction (fenced blocks, ``` or ```json, or last balanced object/array) ---
+  let jsonData: unknown = null;
+  let cleanedText = rawText;
+
+  const tryParse = (s: string): unknown => {
+    // strip leading "JSON:" or similar labels
+    const trimmed = s.replace(/^\s*JSON\s*:\s*/i, "").trim();
+    return JSON.parse(trimmed);
+  };
+
+  // 1) look for fenced blocks (```json or ```)
+  const fencedRegex = /```(?:json)?\s*([\s\S]*?)```/g;
+  const fencedMatches = [...rawText.matchAll(fencedRegex)];
+  if (fencedMatches.length > 0) {
+    // try from last to first
+    for (let i = fencedMatches.length - 1; i >= 0; i--) {
+      const block = fencedMatches[i][1].trim();
+      try {
+        jsonData = tryParse(block);
+        cleanedText = rawText.replace(fencedMatches[i][0], "").trim();
+        break;
+      } catch (e) {
+        console.log(e);
+      }
+    }
+  }
+
+  // 2) fallback: find balanced {...} or [...] blocks anywhere (scan + stack), try parse from last candidate
+  if (jsonData === null) {
+    const text = rawText;
+    const candidates: { start: number; end: number }[] = [];
+
+    const isEscaped = (str: string, idx: number) => {
+      let backslashes = 0;
+      for (let k = idx - 1; k >= 0 && str[k] === "\\"; k--) backslashes++;
+      return backslashes % 2 === 1;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch !== "{" && ch !== "[") continue;
+      const stack: string[] = [ch];
+      let inString = false;
+      for (let j = i + 1; j < text.length; j++) {
+        const c = text[j];
+        if (c === '"' && !isEscaped(text, j)) {
+          inString = !inString;
+          continue;
+        }
+        if (inString) continue;
+        if (c === "{" || c === "[") stack.push(c);
+        else if (c === "}" || c === "]") {
+          const last = stack.pop();
+          if (!last) break;
+          if ((last === "{" && c !== "}") || (last === "[" && c !== "]")) break;
+          if (stack.length === 0) {
+            candidates.push({ start: i, end: j + 1 });
+            break;
+          }
+        }
+      }
+    }
+
+    // try parse candidates from last -> first
+    for (let k = candidates.length - 1; k >= 0; k--) {
+      const { start, end } = candidates[k];
+      const candidateStr = text.slice(start, end).trim();
+      try {
+        jsonData = tryParse(candidateStr);
+        cleanedText = (text.slice(0, start) + text.slice(end)).trim();
+        break;
+      } catch (e) {
+        // continue to earlier candidates
+        console.log(e);
+      }
+    }
+  }
+
+  // jsonData may still be null if nothing parseable found
+  return { text: cleanedText, jsonData };
+}
+
+// a fence that opens a JSON block ("```json", or "```" followed by [ or {), or one whose first
+// line hasn't arrived yet
+const JSON_FENCE = /```(?:json)?\s*(?:[[{]|$)/i;
+// a line opening a JSON array of objects or an object with a key, or one still too short to tell;
+// prose like "[Lưu ý] ..." or a markdown link "[text](url)" doesn't match
+const JSON_LINE = /(?:^|\n)[ \t]*(?:\[\s*(?:[{\]]|$)|\{\s*(?:["}]|$))/;
+
+// while streaming, only show the prose part: hold back the trailing map data, i.e. anything from
+// a JSON fence or a line that opens a bare JSON array/object
+export function visibleStreamText(raw: string): string {
+  let cut = raw.length;
+  const fence = raw.search(JSON_FENCE);
+  if (fence >= 0) cut = fence;
+  const bare = raw.search(JSON_LINE);
+  if (bare >= 0 && bare < cut) cut = bare;
+  // a fence may be half-received ("`" or "``") at the end of the buffer
+  return raw.slice(0, cut).replace(/`{1,2}$/, "").trimEnd();
+}
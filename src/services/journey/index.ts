@@ -0,0 +1,41 @@
+import { geminiProvider } from "./providers/gemini";
+import { mockProvider } from "./providers/mock";
+import { openaiProvider } from "./providers/openai";
+import { repairJourneyReply } from "./repair";
+import type { AskOptions, JourneyProvider, JourneyReply } from "./types";
+
+export type { Msg } from "./prompt";
+export type {
+  AskOptions,
+  JourneyProvider,
+  JourneyReply,
+  RepairReport,
+} from "./types";
+
+const providers: Record<string, JourneyProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+// VITE_LLM_PROVIDER selects the backend ("gemini" | "openai" | "mock"); defaults to gemini
+export const getJourneyProvider = (): JourneyProvider => {
+  const name = String(import.meta.env.VITE_LLM_PROVIDER ?? "gemini")
+    .trim()
+    .toLowerCase();
+  const provider = providers[name];
+  if (!provider) {
+    console.warn(`Unknown VITE_LLM_PROVIDER "${name}", falling back to gemini`);
+    return geminiProvider;
+  }
+  return provider;
+};
+
+export async function askJourneyBot(
+  userPrompt: string,
+  options: AskOptions = {}
+): Promise<JourneyReply> {
+  const provider = getJourneyProvider();
+  const reply = await provider.ask(userPrompt, options);
+  return repairJourneyReply(provider, userPrompt, reply, options);
+}
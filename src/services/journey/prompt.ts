@@ -0,0 +1,138 @@
+import {
+  itineraryToJson,
+  pointsToItinerary,
+  type MapPoint,
+} from "../../itinerary";
+
+export type Msg = {
+  role: "user" | "assistant";
+  content: string;
+  error?: boolean;
+  // status lines shown in the chat (e.g. "đã sửa dữ liệu bản đồ") that the model never sees
+  notice?: boolean;
+};
+
+// provider-neutral conversation turn; adapters map it onto their own wire format
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+// how many recent messages are sent verbatim; older ones get folded into a summary turn
+const MAX_HISTORY_MESSAGES = 12;
+// per-message character cap for history turns (the latest user prompt is never cut)
+const MAX_MESSAGE_CHARS = 2000;
+
+const PERSONA_PROMPT = `
+    Bạn là một hướng dẫn viên du lịch Việt Nam thông minh, thân thiện, giàu hiểu biết về văn hóa và lịch sử.
+    Khi người dùng hỏi về hành trình du lịch, bạn luôn trả lời bằng tiếng Việt, gọn gàng và có cảm xúc.
+    Hãy đảm bảo các địa điểm du lịch gần nhau và giúp người dùng đi du lịch có logic.
+    Hãy chắc chắn rằng bạn tìm đúng những địa điểm do người dùng hỏi (vì có nhiều chỗ có tên giống nhau, nên hãy cân nhắc)
+    Lưu ý: Nếu có ai hỏi về những lịch trình du lịch hoặc địa điểm khác nằm ngoài Việt Nam, hãy từ chối khéo và gợi ý họ hỏi về du lịch Việt Nam
+    Nếu có ai hỏi về chủ đề khác không phải là về du lịch hoặc thông tin về các địa điểm, hãy từ chối khéo và gợi ý họ hỏi về du lịch.
+`;
+
+// free-text mode: prose first, map data as a JSON block at the very end (scraped by extractJsonFromText)
+const TEXT_FORMAT_PROMPT = `
+    Ngoài ra, bạn trả về JSON chứa dữ liệu bản đồ ở cuối câu trả lời (Lưu ý chỉ trả ở cuối cùng!):
+
+    Nếu như họ hỏi về lịch trình du lịch, trả về định dạng JSON:
+    [
+        {
+            "day": 1,
+            destinations: [
+                {
+                "name": "Tên địa điểm", "lat": số (đảm bảo lấy chính xác), "lng": số (đảm bảo lấy chính xác), "desc": "Mô tả ngắn", "source": "Nguồn để đọc thêm (ưu tiên Wikipedia)", "time": "Giờ dự kiến HH:MM (nếu có)",
+                "budget": [ chi phí riêng của điểm này, ví dụ vé vào cửa ]
+                }
+            ],
+            // Optional: ngân sách ước tính của ngày, tách theo từng khoản:
+            "budget": [
+                { "category": "lodging" | "food" | "transport" | "tickets" | "other", "amount": số, "currency": "VND", "perPerson": true/false, "note": "Ghi chú" }
+            ]
+            // category: lodging = lưu trú, food = ăn uống, transport = di chuyển, tickets = vé tham quan.
+            // perPerson = true nếu số tiền tính cho một người.
+        },
+        ...
+    ]
+
+    Nếu như họ hỏi về thông tin của một địa điểm (Ví dụ thông tin về các thành phố, địa danh nổi tiếng), trả về định dạng JSON (sau đó gợi ý họ hỏi về lịch trình du lịch):
+    {
+      "name": "Tên địa điểm", "lat": số (đảm bảo lấy chính xác), "lng": số (đảm bảo lấy chính xác), "desc": "Mô tả địa điểm", "source": "Nguồn để đọc thêm (ưu tiên Wikipedia)"
+    }
+`;
+
+// structured mode: the response is a single JSON object matching the provider's response schema
+const STRUCTURED_FORMAT_PROMPT = `
+    Bạn luôn trả về MỘT object JSON duy nhất gồm các trường:
+    - "reply": câu trả lời cho người dùng, định dạng markdown (KHÔNG chèn JSON hay dữ liệu tọa độ vào đây).
+    - "itinerary": chỉ khi người dùng hỏi về lịch trình du lịch — danh sách các ngày, mỗi ngày gồm "day", "destinations"
+      (mỗi điểm có "name", "lat", "lng" (đảm bảo lấy chính xác), "desc", "source" (ưu tiên Wikipedia), "time" (giờ dự kiến "HH:MM" nếu có), "budget" riêng của điểm nếu có)
+      và "budget" ước tính của ngày nếu có thể. "budget" là danh sách khoản chi
+      { "category": "lodging" (lưu trú) | "food" (ăn uống) | "transport" (di chuyển) | "tickets" (vé tham quan) | "other",
+        "amount": số, "currency": "VND", "perPerson": true nếu tính cho một người, "note": ghi chú }.
+    - "place": chỉ khi người dùng hỏi thông tin về một địa điểm — gồm "name", "lat", "lng", "desc", "source"
+      (sau đó gợi ý họ hỏi về lịch trình du lịch trong "reply").
+    Bỏ trống "itinerary" và "place" nếu câu hỏi không liên quan tới địa điểm cụ thể.
+`;
+
+const EDIT_PROMPT = `
+    Nếu người dùng muốn chỉnh sửa hành trình hiện tại (thêm/bớt ngày, đổi địa điểm...), hãy dựa vào hành trình hiện tại bên dưới
+    và trả về TOÀN BỘ hành trình sau khi chỉnh sửa (không chỉ phần thay đổi).
+`;
+
+const truncate = (s: string, max = MAX_MESSAGE_CHARS) =>
+  s.length > max ? `${s.slice(0, max)}…` : s;
+
+// serialize the itinerary currently on the map back into the day/destinations shape the prompt asks for
+const itineraryToPromptJson = (points: MapPoint[]): string => {
+  return JSON.stringify(itineraryToJson(pointsToItinerary(points)));
+};
+
+export const buildSystemInstruction = (
+  itinerary: MapPoint[],
+  options: { structured?: boolean } = {}
+): string => {
+  const base = `${PERSONA_PROMPT}${
+    options.structured ? STRUCTURED_FORMAT_PROMPT : TEXT_FORMAT_PROMPT
+  }${EDIT_PROMPT}`;
+  if (itinerary.length === 0) return base;
+  return `${base}
+    Hành trình hiện tại đang hiển thị trên bản đồ (JSON):
+    ${itineraryToPromptJson(itinerary)}
+`;
+};
+
+// fold messages that fall outside the window into a single compact recap so the model keeps the gist
+const summarizeOlderMessages = (older: Msg[]): string => {
+  const lines = older.map((m) => {
+    const who = m.role === "user" ? "Người dùng" : "Trợ lý";
+    const oneLine = m.content.replace(/\s+/g, " ").trim();
+    return `- ${who}: ${truncate(oneLine, 200)}`;
+  });
+  return `Tóm tắt phần hội thoại trước đó (đã rút gọn):\n${lines.join("\n")}`;
+};
+
+// trim the history to a window of recent turns (older ones become a recap) and append the new prompt
+export const buildHistoryTurns = (history: Msg[], userPrompt: string): ChatTurn[] => {
+  const usable = history.filter(
+    (m) => !m.error && !m.notice && m.content.trim().length > 0
+  );
+  const recent = usable.slice(-MAX_HISTORY_MESSAGES);
+  const older = usable.slice(0, usable.length - recent.length);
+
+  const turns: ChatTurn[] = [];
+  const push = (role: ChatTurn["role"], text: string) => {
+    // providers expect alternating roles; merge consecutive turns from the same side
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) last.content += `\n\n${text}`;
+    else turns.push({ role, content: text });
+  };
+
+  if (older.length > 0) push("user", summarizeOlderMessages(older));
+  for (const m of recent) push(m.role, truncate(m.content));
+  push("user", userPrompt);
+
+  // the conversation must open with a user turn
+  if (turns[0].role !== "user") {
+    turns.unshift({ role: "user", content: "(tiếp tục cuộc trò chuyện)" });
+  }
+  return turns;
+};
@@ -0,0 +1,102 @@
+import { apiUrl, readApiError } from "../../api";
+import { extractJsonFromText, visibleStreamText } from "../extract";
+import { buildHistoryTurns, buildSystemInstruction } from "../prompt";
+import { parseSseJson, readSse } from "../sse";
+import {
+  GEMINI_RESPONSE_SCHEMA,
+  parseStructuredReply,
+  partialStructuredReply,
+} from "../structured";
+import type { AskOptions, JourneyProvider, JourneyReply } from "../types";
+
+const NO_REPLY = "Không có phản hồi.";
+
+// structured output (responseSchema) is on unless VITE_GEMINI_STRUCTURED_OUTPUT=false
+const isStructuredOutputEnabled = () =>
+  String(import.meta.env.VITE_GEMINI_STRUCTURED_OUTPUT ?? "true").toLowerCase() !==
+  "false";
+
+// concatenate the text parts of the first candidate (a streamed chunk may carry only a fragment)
+const getFirstCandidateText = (obj: unknown): string | null => {
+  if (obj === null || obj === undefined || typeof obj !== "object") return null;
+  const o = obj as Record<string, unknown>;
+  const candidates = o["candidates"];
+  if (!Array.isArray(candidates) || candidates.length === 0) return null;
+  const c0 = candidates[0];
+  if (c0 === null || typeof c0 !== "object") return null;
+  const content = (c0 as Record<string, unknown>)["content"];
+  if (content === null || typeof content !== "object") return null;
+  const parts = (content as Record<string, unknown>)["parts"];
+  if (!Array.isArray(parts) || parts.length === 0) return null;
+  let out = "";
+  for (const p of parts) {
+    if (p === null || typeof p !== "object") continue;
+    const text = (p as Record<string, unknown>)["text"];
+    if (typeof text === "string") out += text;
+  }
+  return out;
+};
+
+async function ask(
+  userPrompt: string,
+  options: AskOptions = {}
+): Promise<JourneyReply> {
+  const { onText, signal } = options;
+  const structured = isStructuredOutputEnabled();
+
+  const body = {
+    systemInstruction: {
+      parts: [
+        {
+          text: buildSystemInstruction(options.itinerary ?? [], { structured }),
+        },
+      ],
+    },
+    contents: buildHistoryTurns(options.history ?? [], userPrompt).map((t) => ({
+      role: t.role === "user" ? "user" : "model",
+      parts: [{ text: t.content }],
+    })),
+    ...(structured
+      ? {
+          generationConfig: {
+            responseMimeType: "application/json",
+            responseSchema: GEMINI_RESPONSE_SCHEMA,
+          },
+        }
+      : {}),
+  };
+
+  // the /api/chat proxy picks the model and attaches the key
+  const res = await fetch(apiUrl("/api/chat"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ provider: "gemini", stream: Boolean(onText), body }),
+    signal,
+  });
+
+  if (!res.ok) {
+    throw new Error(`Gemini API Error ${res.status}: ${await readApiError(res)}`);
+  }
+
+  let rawText = "";
+  if (onText) {
+    await readSse(res, (payload) => {
+      const chunk = getFirstCandidateText(parseSseJson(payload, "Gemini"));
+      if (chunk) {
+        rawText += chunk;
+        onText(
+          structured
+            ? partialStructuredReply(rawText)
+            : visibleStreamText(rawText)
+        );
+      }
+    });
+  } else {
+    rawText = getFirstCandidateText(await res.json()) ?? "";
+  }
+
+  if (!rawText) return { text: NO_REPLY, jsonData: null };
+  return structured ? parseStructuredReply(rawText) : extractJsonFromText(rawText);
+}
+
+export const geminiProvider: JourneyProvider = { name: "gemini", ask };
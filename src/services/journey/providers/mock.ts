@@ -0,0 +1,85 @@
+import { foldDiacritics } from "../../../utils/text";
+import { extractJsonFromText, visibleStreamText } from "../extract";
+import type { AskOptions, JourneyProvider, JourneyReply } from "../types";
+
+type Fixture = { keywords: string[]; reply: string; data: unknown };
+
+// every JSON file in ../fixtures is a canned answer; "default" is used when nothing matches
+const fixtureModules = import.meta.glob<Fixture>("../fixtures/*.json", {
+  eager: true,
+  import: "default",
+});
+
+const fixtures = Object.entries(fixtureModules)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([path, fixture]) => ({
+    id: path.replace(/^.*\//, "").replace(/\.json$/, ""),
+    ...fixture,
+  }));
+
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+
+// pick the fixture whose keywords cover the most of the prompt (longest total match wins)
+export const pickFixture = (userPrompt: string) => {
+  const q = foldDiacritics(userPrompt);
+  let best: (typeof fixtures)[number] | undefined;
+  let bestScore = 0;
+  for (const f of fixtures) {
+    const score = f.keywords
+      .filter((k) => q.includes(foldDiacritics(k)))
+      .reduce((sum, k) => sum + k.length, 0);
+    if (score > bestScore) {
+      best = f;
+      bestScore = score;
+    }
+  }
+  return best ?? fixtures.find((f) => f.id === "default") ?? fixtures[0];
+};
+
+async function ask(
+  userPrompt: string,
+  options: AskOptions = {}
+): Promise<JourneyReply> {
+  const { onText, signal } = options;
+  const fixture = pickFixture(userPrompt);
+  if (!fixture) return { text: "Không có phản hồi.", jsonData: null };
+
+  // render the fixture the way a model would: prose followed by a fenced JSON block,
+  // so the same extraction path as the real providers is exercised
+  const rawText =
+    fixture.data === null || fixture.data === undefined
+      ? fixture.reply
+      : `${fixture.reply}\n\n\`\`\`json\n${JSON.stringify(fixture.data, null, 2)}\n\`\`\``;
+
+  if (onText) {
+    const tokens = rawText.match(/\S+\s*/g) ?? [];
+    let acc = "";
+    for (const token of tokens) {
+      await wait(STREAM_CHUNK_DELAY_MS, signal);
+      acc += token;
+      onText(visibleStreamText(acc));
+    }
+  } else if (signal?.aborted) {
+    throw abortError();
+  }
+
+  return extractJsonFromText(rawText);
+}
+
+export const mockProvider: JourneyProvider = { name: "mock", ask };
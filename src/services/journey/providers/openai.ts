@@ -0,0 +1,54 @@
+import { apiUrl, readApiError } from "../../api";
+import { extractJsonFromText, visibleStreamText } from "../extract";
+import { buildHistoryTurns, buildSystemInstruction } from "../prompt";
+import { parseSseJson, readSse } from "../sse";
+import type { AskOptions, JourneyProvider, JourneyReply } from "../types";
+
+const NO_REPLY = "Không có phản hồi.";
+
+async function ask(
+  userPrompt: string,
+  options: AskOptions = {}
+): Promise<JourneyReply> {
+  const { onText, signal } = options;
+  // model and stream flag are filled in by the /api/chat proxy
+  const body = {
+    messages: [
+      { role: "system", content: buildSystemInstruction(options.itinerary ?? []) },
+      ...buildHistoryTurns(options.history ?? [], userPrompt),
+    ],
+  };
+
+  const res = await fetch(apiUrl("/api/chat"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ provider: "openai", stream: Boolean(onText), body }),
+    signal,
+  });
+
+  if (!res.ok) {
+    throw new Error(`OpenAI API Error ${res.status}: ${await readApiError(res)}`);
+  }
+
+  let rawText = "";
+  if (onText) {
+    await readSse(res, (payload) => {
+      const data = parseSseJson(payload, "OpenAI") as {
+        choices?: { delta?: { content?: unknown } }[];
+      } | null;
+      const chunk = data?.choices?.[0]?.delta?.content;
+      if (typeof chunk === "string" && chunk) {
+        rawText += chunk;
+        onText(visibleStreamText(rawText));
+      }
+    });
+  } else {
+    const data = await res.json();
+    const content = data?.choices?.[0]?.message?.content;
+    rawText = typeof content === "string" ? content : "";
+  }
+
+  return extractJsonFromText(rawText || NO_REPLY);
+}
+
+export const openaiProvider: JourneyProvider = { name: "openai", ask };
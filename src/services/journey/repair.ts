@@ -0,0 +1,108 @@
+import {
+  itineraryToJson,
+  mergeItineraries,
+  parseItinerary,
+  validateItinerary,
+  type Itinerary,
+} from "../../itinerary";
+import { locateFromGazetteer } from "../../gazetteer";
+import type { Msg } from "./prompt";
+import type {
+  AskOptions,
+  JourneyProvider,
+  JourneyReply,
+  RepairReport,
+} from "./types";
+
+// upper bound on extra model round-trips spent fixing one answer
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// the reply clearly tried to carry map data (a fence or coordinate keys) but nothing parsed
+const looksLikeBrokenMapData = (text: string) =>
+  /```|"lat"|"lng"|"destinations"/.test(text);
+
+const describeProblems = (itinerary: Itinerary | null, parseError?: string): string[] =>
+  itinerary
+    ? validateItinerary(itinerary).map((i) => i.message)
+    : [parseError ?? "không tìm thấy JSON hợp lệ chứa dữ liệu bản đồ"];
+
+const buildRepairPrompt = (problems: string[]) =>
+  [
+    "Dữ liệu JSON bản đồ trong câu trả lời trước của bạn có lỗi:",
+    ...problems.map((p) => `- ${p}`),
+    "Hãy sửa các lỗi trên và trả về lại TOÀN BỘ JSON bản đồ (cùng định dạng như trước).",
+    "Tọa độ phải là số thực, nằm trong lãnh thổ Việt Nam. Không cần viết lại phần giới thiệu.",
+  ].join("\n");
+
+// validate a reply and, if its map data is broken, re-prompt the model with the concrete problems
+// (at most MAX_REPAIR_ATTEMPTS times), merging every corrected answer into the original
+export async function repairJourneyReply(
+  provider: JourneyProvider,
+  userPrompt: string,
+  reply: JourneyReply,
+  options: AskOptions = {}
+): Promise<JourneyReply> {
+  const parsed = parseItinerary(reply.jsonData);
+  if (!parsed && !reply.parseError && !looksLikeBrokenMapData(reply.text)) return reply;
+
+  // places the bundled gazetteer knows don't need a round-trip for missing coordinates
+  let itinerary = parsed && locateFromGazetteer(parsed);
+  let problems = describeProblems(itinerary, reply.parseError);
+  if (problems.length === 0) {
+    return itinerary === parsed
+      ? reply
+      : { ...reply, jsonData: itineraryToJson(itinerary!) };
+  }
+
+  const initialProblems = problems;
+  const history: Msg[] = [
+    ...(options.history ?? []),
+    { role: "user", content: userPrompt },
+    {
+      role: "assistant",
+      content:
+        reply.jsonData === null
+          ? reply.text
+          : `${reply.text}\n\n\`\`\`json\n${JSON.stringify(reply.jsonData)}\n\`\`\``,
+    },
+  ];
+
+  let attempts = 0;
+  let parseError = reply.parseError;
+  while (problems.length > 0 && attempts < MAX_REPAIR_ATTEMPTS) {
+    if (options.signal?.aborted) break;
+    attempts++;
+    options.onRepair?.(problems);
+    const repairPrompt = buildRepairPrompt(problems);
+    try {
+      const fixed = await provider.ask(repairPrompt, {
+        history,
+        itinerary: options.itinerary,
+        signal: options.signal,
+      });
+      const merged = mergeItineraries(itinerary, parseItinerary(fixed.jsonData));
+      itinerary = merged && locateFromGazetteer(merged);
+      parseError = fixed.parseError;
+      history.push(
+        { role: "user", content: repairPrompt },
+        { role: "assistant", content: fixed.text }
+      );
+    } catch (e) {
+      // a failed or stopped repair keeps the original answer rather than losing it
+      if (!options.signal?.aborted) console.warn("Itinerary repair attempt failed", e);
+      break;
+    }
+    problems = describeProblems(itinerary, parseError);
+  }
+
+  const repair: RepairReport = {
+    attempts,
+    fixed: initialProblems.filter((p) => !problems.includes(p)),
+    remaining: problems,
+  };
+  return {
+    text: reply.text,
+    jsonData: itinerary ? itineraryToJson(itinerary) : reply.jsonData,
+    repair,
+  };
+}
@@ -0,0 +1,47 @@
+// read a text/event-stream response and hand every `data:` payload to onData, in order;
+// an error thrown by onData cancels the stream and rejects
+export async function readSse(
+  res: Response,
+  onData: (payload: string) => void
+): Promise<void> {
+  if (!res.body) throw new Error("Empty stream body");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const payload = trimmed.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+    onData(payload);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let nl = buffer.indexOf("\n");
+      while (nl >= 0) {
+        handleLine(buffer.slice(0, nl));
+        buffer = buffer.slice(nl + 1);
+        nl = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) handleLine(buffer);
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+}
+
+// a `data:` payload as JSON; a malformed one fails the whole reply instead of silently losing text
+export function parseSseJson(payload: string, provider: string): unknown {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    throw new Error(`${provider} stream sent a malformed chunk`);
+  }
+}
@@ -0,0 +1,130 @@
+import { extractJsonFromText } from "./extract";
+import type { JourneyReply } from "./types";
+
+// Gemini responseSchema (OpenAPI subset). "reply" comes first so it can be rendered while streaming.
+const BUDGET_SCHEMA = {
+  type: "ARRAY",
+  items: {
+    type: "OBJECT",
+    properties: {
+      category: {
+        type: "STRING",
+        enum: ["lodging", "food", "transport", "tickets", "other"],
+      },
+      amount: { type: "NUMBER" },
+      currency: { type: "STRING" },
+      perPerson: { type: "BOOLEAN" },
+      note: { type: "STRING" },
+    },
+    required: ["category", "amount"],
+    propertyOrdering: ["category", "amount", "currency", "perPerson", "note"],
+  },
+};
+
+const PLACE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    name: { type: "STRING" },
+    lat: { type: "NUMBER" },
+    lng: { type: "NUMBER" },
+    desc: { type: "STRING" },
+    source: { type: "STRING" },
+    time: { type: "STRING" },
+    budget: BUDGET_SCHEMA,
+  },
+  required: ["name", "lat", "lng"],
+  propertyOrdering: ["name", "lat", "lng", "desc", "source", "time", "budget"],
+};
+
+export const GEMINI_RESPONSE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    reply: { type: "STRING" },
+    itinerary: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          day: { type: "INTEGER" },
+          destinations: { type: "ARRAY", items: PLACE_SCHEMA },
+          budget: BUDGET_SCHEMA,
+        },
+        required: ["day", "destinations"],
+        propertyOrdering: ["day", "destinations", "budget"],
+      },
+    },
+    place: PLACE_SCHEMA,
+  },
+  required: ["reply"],
+  propertyOrdering: ["reply", "itinerary", "place"],
+};
+
+const UNICODE_ESCAPE = /^[0-9a-fA-F]{4}$/;
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  b: "\b",
+  f: "\f",
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+};
+
+// decode the (possibly unterminated) "reply" string out of a partially received JSON object
+export function partialStructuredReply(raw: string): string {
+  const m = /"reply"\s*:\s*"/.exec(raw);
+  if (!m) return "";
+  let out = "";
+  for (let i = m.index + m[0].length; i < raw.length; i++) {
+    const c = raw[i];
+    if (c === '"') break;
+    if (c !== "\\") {
+      out += c;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break; // escape split across chunks
+    if (next === "u") {
+      const hex = raw.slice(i + 2, i + 6);
+      if (!UNICODE_ESCAPE.test(hex)) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      out += SIMPLE_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return out;
+}
+
+// parse a structured response into { text, jsonData }; anything that doesn't match the schema
+// falls back to the free-text extractor so a misbehaving model still gets its JSON scraped, and
+// carries the reason as parseError for the repair loop
+export function parseStructuredReply(raw: string): JourneyReply {
+  let obj: unknown;
+  try {
+    obj = JSON.parse(raw);
+  } catch (e) {
+    return {
+      ...extractJsonFromText(raw),
+      parseError: `phản hồi không phải JSON hợp lệ (${e instanceof Error ? e.message : String(e)})`,
+    };
+  }
+  if (obj && typeof obj === "object" && !Array.isArray(obj)) {
+    const o = obj as Record<string, unknown>;
+    if (typeof o["reply"] === "string") {
+      const itinerary =
+        Array.isArray(o["itinerary"]) && o["itinerary"].length > 0
+          ? o["itinerary"]
+          : null;
+      const place =
+        o["place"] && typeof o["place"] === "object" ? o["place"] : null;
+      return { text: o["reply"].trim(), jsonData: itinerary ?? place };
+    }
+  }
+  return {
+    ...extractJsonFromText(raw),
+    parseError: 'phản hồi JSON thiếu trường "reply" dạng chuỗi',
+  };
+}
@@ -0,0 +1,32 @@
+import type { MapPoint } from "../../itinerary";
+import type { Msg } from "./prompt";
+
+// outcome of the self-correction loop run when the model's map JSON failed validation
+export type RepairReport = {
+  attempts: number;
+  fixed: string[];
+  remaining: string[];
+};
+
+export type JourneyReply = {
+  text: string;
+  jsonData: unknown;
+  // why a structured response couldn't be read as such (fed back to the model by the repair loop)
+  parseError?: string;
+  repair?: RepairReport;
+};
+
+export type AskOptions = {
+  history?: Msg[];
+  itinerary?: MapPoint[];
+  // when set, the reply is streamed and this receives the prose seen so far
+  onText?: (visible: string) => void;
+  signal?: AbortSignal;
+  // called before each repair round-trip with the validation problems being sent back to the model
+  onRepair?: (problems: string[]) => void;
+};
+
+export interface JourneyProvider {
+  name: string;
+  ask(userPrompt: string, options?: AskOptions): Promise<JourneyReply>;
+}
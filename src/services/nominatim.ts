@@ -0,0 +1,156 @@
+import { apiUrl } from "./api";
+
+// one /search hit (jsonv2); only the fields the app reads
+export type NominatimResult = {
+  lat?: string;
+  lon?: string;
+  display_name?: string;
+  name?: string;
+  class?: string;
+  type?: string;
+  importance?: number;
+  // [south, north, west, east] as strings
+  boundingbox?: unknown[];
+  geojson?: GeoJSON.Geometry;
+  // addressdetails: state/province, city, county...
+  address?: Record<string, string>;
+  osm_type?: string;
+  osm_id?: number | string;
+};
+
+export type NominatimDetails = {
+  geojson?: GeoJSON.Geometry;
+  polygon_geojson?: GeoJSON.Geometry;
+};
+
+const headers = { Accept: "application/json" };
+
+// background work (prefetch, coordinate checks) only runs when nothing the user is waiting for is queued
+export type RequestPriority = "high" | "low";
+type RequestOptions = { priority?: RequestPriority; signal?: AbortSignal };
+
+// Nominatim's usage policy allows one request per second; the proxy enforces it for all
+// clients, this keeps one tab from queueing a burst there
+const MIN_INTERVAL_MS = 1000;
+const waiting: Record<RequestPriority, (() => void)[]> = { high: [], low: [] };
+let busy = false;
+let lastStart = 0;
+
+const pump = () => {
+  if (busy) return;
+  const next = waiting.high.shift() ?? waiting.low.shift();
+  if (!next) return;
+  busy = true;
+  setTimeout(() => {
+    lastStart = Date.now();
+    next();
+  }, Math.max(0, lastStart + MIN_INTERVAL_MS - Date.now()));
+};
+
+// run requests one at a time, spaced MIN_INTERVAL_MS apart; aborting drops a request that
+// hasn't started yet
+const enqueue = <T>(
+  request: () => Promise<T>,
+  { priority = "high", signal }: RequestOptions
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const queue = waiting[priority];
+    const onAbort = () => {
+      const i = queue.indexOf(job);
+      if (i >= 0) queue.splice(i, 1);
+      reject(signal?.reason);
+    };
+    const job = () => {
+      signal?.removeEventListener("abort", onAbort);
+      request()
+        .then(resolve, reject)
+        .finally(() => {
+          busy = false;
+          pump();
+        });
+    };
+    if (signal?.aborted) return reject(signal.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(job);
+    pump();
+  });
+
+// Nominatim search through the /api/boundary proxy (it sets the User-Agent browsers can't);
+// throws on network/HTTP errors so callers can tell "no match" ([]) from "unavailable"
+export const searchNominatim = async (
+  q: string,
+  { limit = 1, ...options }: { limit?: number } & RequestOptions = {}
+): Promise<NominatimResult[]> => {
+  const res = await enqueue(
+    () => fetch(apiUrl("/api/boundary", { q, limit }), { headers, signal: options.signal }),
+    options
+  );
+  if (!res.ok) throw new Error(`Nominatim search failed (${res.status})`);
+  const raw = await res.json();
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (x): x is NominatimResult => typeof x === "object" && x !== null
+  );
+};
+
+const OSM_TYPE_LETTERS: Record<string, string> = {
+  relation: "R",
+  way: "W",
+  node: "N",
+};
+
+// details (with polygon) of a search hit; null when unavailable
+export const fetchNominatimDetails = async (
+  r: NominatimResult,
+  options: RequestOptions = {}
+): Promise<NominatimDetails | null> => {
+  if (!r.osm_type || !r.osm_id) return null;
+  const osmtype =
+    OSM_TYPE_LETTERS[String(r.osm_type).toLowerCase()] ??
+    String(r.osm_type).charAt(0).toUpperCase();
+  const res = await enqueue(
+    () =>
+      fetch(apiUrl("/api/boundary", { osmtype, osmid: String(r.osm_id) }), {
+        headers,
+        signal: options.signal,
+      }),
+    options
+  );
+  if (!res.ok) return null;
+  return (await res.json()) as NominatimDetails | null;
+};
+
+// [minLng, minLat, maxLng, maxLat] of a hit's bounding box
+export const resultBBox = (
+  r: NominatimResult
+): [number, number, number, number] | null => {
+  if (!Array.isArray(r.boundingbox) || r.boundingbox.length !== 4) return null;
+  const vals = r.boundingbox.map(Number);
+  if (vals.some((v) => isNaN(v))) return null;
+  return [
+    Math.min(vals[2], vals[3]),
+    Math.min(vals[0], vals[1]),
+    Math.max(vals[2], vals[3]),
+    Math.max(vals[0], vals[1]),
+  ];
+};
+
+export const resultCoords = (r: NominatimResult): { lat: number; lng: number } | null => {
+  if (r.lat == null || r.lon == null) return null;
+  const lat = Number(r.lat);
+  const lng = Number(r.lon);
+  return isFinite(lat) && isFinite(lng) ? { lat, lng } : null;
+};
+
+// province (or centrally-run city) a hit lies in, for telling same-named places apart
+export const resultRegion = (r: NominatimResult): string | undefined => {
+  const a = r.address ?? {};
+  const region = a.state ?? a.province ?? a.city;
+  if (region) return region;
+  // display_name ends "..., <province>, [postcode,] Việt Nam"
+  const parts = (r.display_name ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s && !/^\d+$/.test(s));
+  return parts.length >= 2 ? parts[parts.length - 2] : undefined;
+};
@@ -0,0 +1,117 @@
+// road routes between stops. Mapbox Directions by default; VITE_ROUTING_URL points at any
+// OSRM-compatible server instead (same /route/v1/{profile}/{coords} API and response shape)
+const ROUTING_URL = String(import.meta.env.VITE_ROUTING_URL ?? "").replace(
+  /\/+$/,
+  ""
+);
+const ROUTING_PROFILE = String(import.meta.env.VITE_ROUTING_PROFILE || "driving");
+const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN as string;
+
+// Mapbox Directions accepts at most 25 coordinates per request
+const MAX_WAYPOINTS = 25;
+// a failed lookup isn't retried for this long, so every edit doesn't hit the router again
+const FAILURE_TTL_MS = 60 * 1000;
+
+export type RouteLeg = { distance: number; duration: number }; // meters, seconds
+
+export type RouteResult = {
+  geometry: GeoJSON.LineString;
+  legs: RouteLeg[];
+  distance: number;
+  duration: number;
+};
+
+const routeUrl = (coords: [number, number][]) => {
+  const path = coords.map(([lng, lat]) => `${lng},${lat}`).join(";");
+  const qs = "overview=full&geometries=geojson";
+  if (ROUTING_URL) {
+    return `${ROUTING_URL}/route/v1/${ROUTING_PROFILE}/${path}?${qs}`;
+  }
+  return `https://api.mapbox.com/directions/v5/mapbox/${ROUTING_PROFILE}/${path}?${qs}&access_token=${MAPBOX_TOKEN}`;
+};
+
+const fetchChunk = async (
+  coords: [number, number][],
+  signal?: AbortSignal
+): Promise<RouteResult> => {
+  const res = await fetch(routeUrl(coords), { signal });
+  if (!res.ok) throw new Error(`Routing failed: ${res.status}`);
+  const data = await res.json();
+  const route = Array.isArray(data?.routes) ? data.routes[0] : null;
+  if (!route || route.geometry?.type !== "LineString") {
+    throw new Error(`No route: ${data?.code ?? "unknown"}`);
+  }
+  return {
+    geometry: route.geometry,
+    legs: (route.legs ?? []).map((l: RouteLeg) => ({
+      distance: Number(l.distance) || 0,
+      duration: Number(l.duration) || 0,
+    })),
+    distance: Number(route.distance) || 0,
+    duration: Number(route.duration) || 0,
+  };
+};
+
+const cache = new Map<string, RouteResult>();
+// route key -> when the lookup failed
+const failures = new Map<string, number>();
+
+// identifies a route by its ordered stops, so a reordered or replaced stop is a different route
+export const routeKey = (coords: [number, number][]) =>
+  `${ROUTING_PROFILE}:${coords.map((c) => c.join(",")).join(";")}`;
+
+// route through coords ([lng, lat]) in order; one leg per consecutive pair. Throws when the
+// router fails, and for a minute afterwards without asking it again.
+export const fetchRoute = async (
+  coords: [number, number][],
+  signal?: AbortSignal
+): Promise<RouteResult | null> => {
+  if (coords.length < 2) return null;
+  const key = routeKey(coords);
+  const hit = cache.get(key);
+  if (hit) return hit;
+  const failedAt = failures.get(key);
+  if (failedAt !== undefined && Date.now() - failedAt < FAILURE_TTL_MS) {
+    throw new Error("Routing failed recently");
+  }
+
+  // long days are routed in overlapping chunks and stitched together
+  const parts: RouteResult[] = [];
+  try {
+    for (let i = 0; i < coords.length - 1; i += MAX_WAYPOINTS - 1) {
+      parts.push(await fetchChunk(coords.slice(i, i + MAX_WAYPOINTS), signal));
+    }
+  } catch (e) {
+    if (!signal?.aborted) failures.set(key, Date.now());
+    throw e;
+  }
+  failures.delete(key);
+  const result: RouteResult = {
+    geometry: {
+      type: "LineString",
+      coordinates: parts.flatMap((p, i) =>
+        i === 0 ? p.geometry.coordinates : p.geometry.coordinates.slice(1)
+      ),
+    },
+    legs: parts.flatMap((p) => p.legs),
+    distance: parts.reduce((sum, p) => sum + p.distance, 0),
+    duration: parts.reduce((sum, p) => sum + p.duration, 0),
+  };
+  cache.set(key, result);
+  return result;
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000
+    ? `${Math.round(meters)} m`
+    : `${new Intl.NumberFormat("vi-VN", { maximumFractionDigits: 1 }).format(
+        meters / 1000
+      )} km`;
+
+export const formatDuration = (seconds: number) => {
+  const mins = Math.max(1, Math.round(seconds / 60));
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  if (h === 0) return `${m} phút`;
+  return m ? `${h} giờ ${m} phút` : `${h} giờ`;
+};
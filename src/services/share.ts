@@ -0,0 +1,110 @@
+import { parsePoints, type Itinerary, type MapPoint } from "../itinerary";
+import { apiUrl, readApiError } from "./api";
+
+export type SharedTrip = {
+  title: string;
+  itinerary: MapPoint[];
+  // absent in links made before it was kept
+  kind?: Itinerary["kind"];
+  travelers?: number;
+};
+
+// links and snapshots are untrusted: stops go back through the itinerary parser
+const toSharedTrip = (data: unknown): SharedTrip => {
+  const o = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const itinerary = parsePoints(o.itinerary);
+  if (!itinerary) throw new Error("Invalid shared trip");
+  return {
+    title: typeof o.title === "string" ? o.title : "",
+    itinerary,
+    ...(o.kind === "place" || o.kind === "itinerary" ? { kind: o.kind } : {}),
+    ...(typeof o.travelers === "number" && o.travelers >= 1
+      ? { travelers: Math.floor(o.travelers) }
+      : {}),
+  };
+};
+
+// geometry is re-fetched by the viewer; leaving it out keeps links and snapshots small
+const toShareable = (trip: SharedTrip): SharedTrip => ({
+  ...trip,
+  itinerary: trip.itinerary.map((p) => {
+    const copy = { ...p };
+    delete copy.geojson;
+    return copy;
+  }),
+});
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (s: string) => {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+};
+
+const pipeBytes = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+    ).arrayBuffer()
+  );
+
+// "z" + deflate-raw when the browser has CompressionStream, otherwise "j" + plain JSON
+export const encodeSharedTrip = async (trip: SharedTrip): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(toShareable(trip)));
+  if (typeof CompressionStream !== "undefined") {
+    return `z${toBase64Url(await pipeBytes(json, new CompressionStream("deflate-raw")))}`;
+  }
+  return `j${toBase64Url(json)}`;
+};
+
+export const decodeSharedTrip = async (encoded: string): Promise<SharedTrip> => {
+  const kind = encoded[0];
+  let bytes = fromBase64Url(encoded.slice(1));
+  if (kind === "z") {
+    bytes = await pipeBytes(bytes, new DecompressionStream("deflate-raw"));
+  } else if (kind !== "j") {
+    throw new Error("Unknown share format");
+  }
+  return toSharedTrip(JSON.parse(new TextDecoder().decode(bytes)));
+};
+
+// link that carries the whole trip in the URL fragment (never sent to any server)
+export const createEncodedShareLink = async (trip: SharedTrip) =>
+  `${window.location.origin}/trip#${await encodeSharedTrip(trip)}`;
+
+// store a snapshot on the /api/share backend and return its /trip/:id link;
+// falls back to the encoded link when no backend is reachable
+export const createShareLink = async (
+  trip: SharedTrip
+): Promise<{ url: string; stored: boolean }> => {
+  try {
+    const res = await fetch(apiUrl("/api/share"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toShareable(trip)),
+    });
+    if (!res.ok) throw new Error(await readApiError(res));
+    const { id } = await res.json();
+    if (typeof id !== "string") throw new Error("Missing id");
+    return { url: `${window.location.origin}/trip/${id}`, stored: true };
+  } catch (e) {
+    console.warn("Share backend unavailable, using an encoded link", e);
+    return { url: await createEncodedShareLink(trip), stored: false };
+  }
+};
+
+export const fetchSharedTrip = async (id: string): Promise<SharedTrip> => {
+  const res = await fetch(apiUrl("/api/share", { id }));
+  if (!res.ok) throw new Error(await readApiError(res));
+  return toSharedTrip(await res.json());
+};
@@ -0,0 +1,118 @@
+import { upgradeLegacyBudgets, type Itinerary, type MapPoint } from "../itinerary";
+import type { Expense } from "../expenses";
+import type { Msg } from "./journey";
+import { promisifyRequest, STORES, withStore } from "./db";
+
+export type SavedTrip = {
+  id: string;
+  title: string;
+  messages: Msg[];
+  itinerary: MapPoint[];
+  // absent on trips saved before it was kept
+  kind?: Itinerary["kind"];
+  // people sharing the trip, for per-person budget lines
+  travelers?: number;
+  // money actually spent, and the names it is split between
+  expenses?: Expense[];
+  members?: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export const DEFAULT_TRIP_TITLE = "Chuyến đi mới";
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const upgradeTrip = (trip: SavedTrip): SavedTrip => ({
+  ...trip,
+  itinerary: upgradeLegacyBudgets(trip.itinerary),
+});
+
+// first user message, trimmed to a single short line
+export const deriveTripTitle = (messages: Msg[]): string => {
+  const first = messages.find((m) => m.role === "user")?.content ?? "";
+  const oneLine = first.replace(/\s+/g, " ").trim();
+  if (!oneLine) return DEFAULT_TRIP_TITLE;
+  return oneLine.length > 60 ? `${oneLine.slice(0, 60)}…` : oneLine;
+};
+
+// newest first
+export const listTrips = async (): Promise<SavedTrip[]> => {
+  const all = await withStore(STORES.trips, "readonly", (s) =>
+    promisifyRequest(s.getAll() as IDBRequest<SavedTrip[]>)
+  );
+  return all.map(upgradeTrip).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getTrip = async (id: string): Promise<SavedTrip | null> => {
+  const trip = await withStore(STORES.trips, "readonly", (s) =>
+    promisifyRequest(s.get(id) as IDBRequest<SavedTrip | undefined>)
+  );
+  return trip ? upgradeTrip(trip) : null;
+};
+
+// create (id omitted) or update a trip's conversation and itinerary; title and createdAt of an
+// existing record are kept
+export const saveTrip = async (data: {
+  id?: string | null;
+  messages: Msg[];
+  itinerary: MapPoint[];
+  kind?: Itinerary["kind"];
+  travelers?: number;
+  expenses?: Expense[];
+  members?: string[];
+}): Promise<SavedTrip> => {
+  const now = Date.now();
+  return withStore(STORES.trips, "readwrite", async (s) => {
+    const existing = data.id
+      ? ((await promisifyRequest(s.get(data.id))) as SavedTrip | undefined)
+      : undefined;
+    const trip: SavedTrip = {
+      id: existing?.id ?? data.id ?? newId(),
+      title: existing?.title ?? deriveTripTitle(data.messages),
+      messages: data.messages,
+      itinerary: data.itinerary,
+      kind: data.kind ?? existing?.kind,
+      travelers: data.travelers ?? existing?.travelers,
+      expenses: data.expenses ?? existing?.expenses,
+      members: data.members ?? existing?.members,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await promisifyRequest(s.put(trip));
+    return trip;
+  });
+};
+
+export const renameTrip = async (id: string, title: string): Promise<void> => {
+  await withStore(STORES.trips, "readwrite", async (s) => {
+    const trip = (await promisifyRequest(s.get(id))) as SavedTrip | undefined;
+    if (!trip) return;
+    await promisifyRequest(
+      s.put({ ...trip, title: title.trim() || DEFAULT_TRIP_TITLE, updatedAt: Date.now() })
+    );
+  });
+};
+
+export const duplicateTrip = async (id: string): Promise<SavedTrip | null> =>
+  withStore(STORES.trips, "readwrite", async (s) => {
+    const trip = (await promisifyRequest(s.get(id))) as SavedTrip | undefined;
+    if (!trip) return null;
+    const now = Date.now();
+    const copy: SavedTrip = {
+      ...structuredClone(trip),
+      id: newId(),
+      title: `${trip.title} (bản sao)`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await promisifyRequest(s.put(copy));
+    return copy;
+  });
+
+export const deleteTrip = async (id: string): Promise<void> => {
+  await withStore(STORES.trips, "readwrite", (s) => promisifyRequest(s.delete(id)));
+};
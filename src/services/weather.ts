@@ -0,0 +1,46 @@
+import { apiUrl } from "./api";
+
+export type Weather = {
+  tempC: number;
+  description: string;
+  icon?: string;
+  humidity?: number;
+  windSpeed?: number;
+};
+
+export const weatherIconUrl = (icon: string) =>
+  `https://openweathermap.org/img/wn/${icon}@2x.png`;
+
+// current weather at a point (OpenWeatherMap through /api/weather); null when unavailable
+export const fetchWeather = async (
+  lat: number,
+  lng: number
+): Promise<Weather | null> => {
+  try {
+    const res = await fetch(apiUrl("/api/weather", { lat, lng }));
+    // 503 = OPENWEATHERMAP_KEY not configured on the server
+    if (!res.ok) return null;
+    const data = await res.json();
+    if (!data) return null;
+    const tempC =
+      typeof data.main?.temp === "number"
+        ? data.main.temp
+        : Number(data.main?.temp ?? NaN);
+    const description =
+      Array.isArray(data.weather) && data.weather[0]
+        ? String(data.weather[0].description ?? "")
+        : "";
+    const icon =
+      Array.isArray(data.weather) && data.weather[0]
+        ? String(data.weather[0].icon ?? "")
+        : undefined;
+    const humidity =
+      typeof data.main?.humidity === "number" ? data.main.humidity : undefined;
+    const windSpeed =
+      typeof data.wind?.speed === "number" ? data.wind.speed : undefined;
+    return { tempC, description, icon, humidity, windSpeed };
+  } catch (err) {
+    console.warn("fetchWeather error", err);
+    return null;
+  }
+};
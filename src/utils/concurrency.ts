@@ -0,0 +1,16 @@
+// run `task` over `items` with at most `limit` in flight; once `signal` aborts no new task
+// starts (running ones finish, their callers check the signal before using the result)
+export const forEachLimit = async <T>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
@@ -0,0 +1,39 @@
+const EARTH_RADIUS_M = 6371000;
+
+// great-circle distance in meters between two [lng, lat] points
+export const distanceMeters = (
+  [lng1, lat1]: [number, number],
+  [lng2, lat2]: [number, number]
+): number => {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// [minLng, minLat, maxLng, maxLat] contains [lng, lat]
+export const bboxContains = (
+  [minLng, minLat, maxLng, maxLat]: [number, number, number, number],
+  [lng, lat]: [number, number]
+) => lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+
+// polygon approximating a circle of radius meters around [lng, lat]
+export const circlePolygon = (
+  [lng, lat]: [number, number],
+  radius: number,
+  steps = 48
+): GeoJSON.Polygon => {
+  const degPerMeterLat = 360 / (2 * Math.PI * EARTH_RADIUS_M);
+  const ring: [number, number][] = [];
+  for (let i = 0; i < steps; i++) {
+    const theta = (i / steps) * Math.PI * 2;
+    const dLat = radius * Math.cos(theta) * degPerMeterLat;
+    const dLng = (radius * Math.sin(theta) * degPerMeterLat) / Math.cos((lat * Math.PI) / 180);
+    ring.push([lng + dLng, lat + dLat]);
+  }
+  ring.push(ring[0]);
+  return { type: "Polygon", coordinates: [ring] };
+};
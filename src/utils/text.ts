@@ -0,0 +1,25 @@
+// lower-case and strip Vietnamese diacritics so "Hà Nội", "ha noi" and "HA NOI" compare equal
+export const foldDiacritics = (s: string): string =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .trim();
+
+// ascii file-name friendly form: "Hà Nội 2 ngày" -> "ha-noi-2-ngay"
+export const slugify = (s: string): string =>
+  foldDiacritics(s)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "");
+
+// only http(s) links are rendered; anything else (javascript:, data:...) is dropped
+export const isWebUrl = (s: string): boolean => {
+  try {
+    const { protocol } = new URL(s);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
@@ -1,8 +1,22 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import tailwindcss from '@tailwindcss/vite'
+import { createApiMiddleware } from './server/app.ts'
+import { loadServerConfig } from './server/config.ts'
 
-// https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
+// mounts the /api proxy (server/) into the dev and preview servers so keys stay server-side
+const apiProxy = (env: Record<string, string>): Plugin => ({
+  name: 'vietnam-journey-bot-api',
+  configureServer(server) {
+    server.middlewares.use(createApiMiddleware(loadServerConfig({ ...process.env, ...env })))
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createApiMiddleware(loadServerConfig({ ...process.env, ...env })))
+  },
 })
+
+// https://vite.dev/config/
+export default defineConfig(({ mode }) => ({
+  // '' prefix: also load the non-VITE_ server keys from .env (they are only handed to the proxy)
+  plugins: [react(), tailwindcss(), apiProxy(loadEnv(mode, process.cwd(), ''))],
+}))